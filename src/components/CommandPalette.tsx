@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Globe2, Maximize, Route, SunMoon } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { CountryId, countriesById } from '@/data/countries';
+import { byName, useCountryName } from '@/hooks/use-country-name';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  countryIds: CountryId[];
+  onSelectCountry: (id: CountryId) => void;
+  onFindPath: (from: CountryId, to: CountryId) => void;
+  onResetView: () => void;
+  onToggleTheme: () => void;
+}
+
+// "find path" asks for the two ends one after the other
+type PaletteStep =
+  | { kind: "search" }
+  | { kind: "path-from" }
+  | { kind: "path-to"; from: CountryId };
+
+const SEARCH: PaletteStep = { kind: "search" };
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({
+  open,
+  onOpenChange,
+  countryIds,
+  onSelectCountry,
+  onFindPath,
+  onResetView,
+  onToggleTheme,
+}) => {
+  const [step, setStep] = useState<PaletteStep>(SEARCH);
+  const [query, setQuery] = useState("");
+
+  const nameOf = useCountryName();
+  const sortedIds = useMemo(
+    () => [...countryIds].sort(byName(nameOf)),
+    [countryIds, nameOf]
+  );
+
+  // Start over every time the palette opens
+  useEffect(() => {
+    if (!open) return;
+    setStep(SEARCH);
+    setQuery("");
+  }, [open]);
+
+  // Cmd+K / Ctrl+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  const run = (action: () => void) => {
+    action();
+    onOpenChange(false);
+  };
+
+  const goTo = (next: PaletteStep) => {
+    setStep(next);
+    setQuery("");
+  };
+
+  const selectCountry = (id: CountryId) => {
+    if (step.kind === "path-from") goTo({ kind: "path-to", from: id });
+    else if (step.kind === "path-to") run(() => onFindPath(step.from, id));
+    else run(() => onSelectCountry(id));
+  };
+
+  const placeholder =
+    step.kind === "path-from" ? "Path from which country?" :
+    step.kind === "path-to" ? `Path from ${nameOf(step.from)} to...` :
+    "Search countries or type a command...";
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput
+        placeholder={placeholder}
+        value={query}
+        onValueChange={setQuery}
+        onKeyDown={event => {
+          // Backspace on an empty input steps back out of the path prompts
+          if (event.key === "Backspace" && !query && step.kind !== "search") goTo(SEARCH);
+        }}
+      />
+      <CommandList>
+        <CommandEmpty>No matching country or command.</CommandEmpty>
+
+        {step.kind === "search" && (
+          <>
+            <CommandGroup heading="Commands">
+              <CommandItem value="find path" keywords={["route", "borders", "crossings"]} onSelect={() => goTo({ kind: "path-from" })}>
+                <Route className="mr-2" /> Find path...
+              </CommandItem>
+              <CommandItem value="reset view" keywords={["zoom", "fit", "center"]} onSelect={() => run(onResetView)}>
+                <Maximize className="mr-2" /> Reset view
+              </CommandItem>
+              <CommandItem value="toggle theme" keywords={["dark", "light", "mode"]} onSelect={() => run(onToggleTheme)}>
+                <SunMoon className="mr-2" /> Toggle theme
+              </CommandItem>
+            </CommandGroup>
+            <CommandSeparator />
+          </>
+        )}
+
+        <CommandGroup heading="Countries">
+          {sortedIds
+            .filter(id => step.kind !== "path-to" || id !== step.from)
+            .map(id => (
+              // The id is the item's value; name and aliases are what the fuzzy search matches
+              <CommandItem
+                key={id}
+                value={id}
+                keywords={[nameOf(id), ...(countriesById[id]?.aliases ?? [])]}
+                onSelect={() => selectCountry(id)}
+              >
+                <Globe2 className="mr-2" /> {nameOf(id)}
+                <CommandShortcut>{id}</CommandShortcut>
+              </CommandItem>
+            ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
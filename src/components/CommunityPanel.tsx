@@ -0,0 +1,88 @@
+import React from 'react';
+import { Network } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { CountryId, countriesById } from '@/data/countries';
+import { CommunityResult } from '@/lib/communities';
+import { categoryVar } from '@/lib/colors';
+
+interface CommunityPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  resolution: number;
+  onResolutionChange: (resolution: number) => void;
+  result: CommunityResult;
+}
+
+// Most common continent among the members and its share, e.g. "Europe 90%"
+const dominantContinent = (ids: CountryId[]) => {
+  const counts = new Map<string, number>();
+  ids.forEach(id => {
+    const continent = countriesById[id]?.continents[0] ?? "Unknown";
+    counts.set(continent, (counts.get(continent) ?? 0) + 1);
+  });
+  const [continent, count] = Array.from(counts).sort((a, b) => b[1] - a[1])[0];
+  return `${continent} ${Math.round((count / ids.length) * 100)}%`;
+};
+
+const CommunityPanel: React.FC<CommunityPanelProps> = ({
+  enabled,
+  onEnabledChange,
+  resolution,
+  onResolutionChange,
+  result,
+}) => {
+  return (
+    <Card className="w-60 bg-white/95 dark:bg-slate-800/95">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Network className="h-4 w-4" /> Communities
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="show-communities" className="text-xs">Color by community</Label>
+          <Switch id="show-communities" checked={enabled} onCheckedChange={onEnabledChange} />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span>Resolution</span>
+            <span className="tabular-nums text-muted-foreground">{resolution.toFixed(1)}</span>
+          </div>
+          <Slider
+            min={0.2}
+            max={3}
+            step={0.1}
+            value={[resolution]}
+            onValueChange={([value]) => onResolutionChange(value)}
+          />
+        </div>
+
+        <p className="text-xs">
+          {result.communities.length} communities · modularity{" "}
+          <span className="tabular-nums">{result.modularity.toFixed(3)}</span>
+        </p>
+
+        {enabled && (
+          <ul className="max-h-40 overflow-y-auto space-y-1 text-xs">
+            {result.communities.map((members, index) => (
+              <li key={index} className="flex items-center gap-2">
+                <span
+                  className="h-2.5 w-2.5 shrink-0 rounded-full"
+                  style={{ backgroundColor: categoryVar(index) }}
+                />
+                <span className="flex-1 truncate">{members.length} countries</span>
+                <span className="text-muted-foreground">{dominantContinent(members)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CommunityPanel;
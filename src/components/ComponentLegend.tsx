@@ -0,0 +1,42 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ConnectedComponent } from '@/lib/connectivity';
+import { NameOf, useCountryName } from '@/hooks/use-country-name';
+
+interface ComponentLegendProps {
+  components: ConnectedComponent[];
+}
+
+// "China and 134 others" for large components, the member names for small ones
+const describeComponent = (component: ConnectedComponent, nameOf: NameOf) => {
+  const { countryIds, hub } = component;
+  if (countryIds.length <= 2) return countryIds.map(nameOf).join(" – ");
+  return `${nameOf(hub)} and ${countryIds.length - 1} others`;
+};
+
+const ComponentLegend: React.FC<ComponentLegendProps> = ({ components }) => {
+  const nameOf = useCountryName();
+  return (
+    <Card className="w-64 bg-white/95 dark:bg-slate-800/95">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Layers className="h-4 w-4" /> Land masses
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        <ul className="max-h-40 overflow-y-auto space-y-1 text-xs">
+          {components.map(component => (
+            <li key={component.index} className="flex items-center justify-between gap-2">
+              <span className="truncate">{describeComponent(component, nameOf)}</span>
+              <Badge variant="secondary">{component.countryIds.length}</Badge>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ComponentLegend;
@@ -0,0 +1,219 @@
+import React, { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Border, CountryId, countriesById, describeBorder } from '@/data/countries';
+import { byName, useCountryName } from '@/hooks/use-country-name';
+import { buildAdjacency, hopDistances } from '@/lib/graph';
+import { ComponentAnalysis } from '@/lib/connectivity';
+import { CentralityMetric, CentralityScores, centralityMetricLabels, rankByScore } from '@/lib/centrality';
+
+interface CountryDetailsSheetProps {
+  // Country to show; null closes the panel
+  countryId: CountryId | null;
+  onClose: () => void;
+  // Move the graph to another country, which then becomes the one shown
+  onNavigate: (id: CountryId) => void;
+  // Second country shown side by side with the first
+  compareId: CountryId | null;
+  onCompareChange: (id: CountryId | null) => void;
+  borders: Border[];
+  scores: CentralityScores;
+  landMasses: ComponentAnalysis;
+}
+
+const formatScore = (metric: CentralityMetric, score: number) =>
+  metric === "degree" ? String(score) : score.toFixed(3);
+
+const CountryDetailsSheet: React.FC<CountryDetailsSheetProps> = ({
+  countryId,
+  onClose,
+  onNavigate,
+  compareId,
+  onCompareChange,
+  borders,
+  scores,
+  landMasses,
+}) => {
+  const nameOf = useCountryName();
+  const adjacency = useMemo(() => buildAdjacency(borders), [borders]);
+
+  // 1-based rank of every country under each metric
+  const ranks = useMemo(() => {
+    const entries = (Object.keys(scores) as CentralityMetric[]).map(metric => {
+      const rankOf = new Map<CountryId, number>();
+      rankByScore(scores[metric]).forEach((id, index) => rankOf.set(id, index + 1));
+      return [metric, rankOf] as const;
+    });
+    return new Map(entries);
+  }, [scores]);
+
+  const details = useMemo(() => {
+    if (!countryId) return null;
+    const neighbors = Array.from(adjacency.get(countryId) ?? new Map<CountryId, Border[]>())
+      .sort(([a], [b]) => byName(nameOf)(a, b));
+    const secondRing = Array.from(hopDistances(adjacency, countryId, 2))
+      .filter(([, hops]) => hops === 2)
+      .map(([id]) => id)
+      .sort(byName(nameOf));
+    const component = landMasses.components[landMasses.componentOf.get(countryId)];
+    return { country: countriesById[countryId], neighbors, secondRing, component };
+  }, [countryId, adjacency, landMasses, nameOf]);
+
+  const comparison = useMemo(() => {
+    if (!countryId || !compareId) return null;
+    const neighborsOf = (id: CountryId) => new Set(adjacency.get(id)?.keys() ?? []);
+    const others = neighborsOf(compareId);
+    const shared = Array.from(neighborsOf(countryId)).filter(id => others.has(id)).sort(byName(nameOf));
+    const hops = hopDistances(adjacency, countryId, Infinity).get(compareId) ?? null;
+    const sameLandMass = landMasses.componentOf.get(countryId) === landMasses.componentOf.get(compareId);
+    return { shared, hops, sameLandMass };
+  }, [countryId, compareId, adjacency, landMasses, nameOf]);
+
+  const countryOptions = useMemo(() => Array.from(adjacency.keys()).sort(byName(nameOf)), [adjacency, nameOf]);
+
+  const countryLink = (id: CountryId) => (
+    <button
+      type="button"
+      className="text-left hover:underline focus-visible:underline focus-visible:outline-none"
+      onClick={() => onNavigate(id)}
+    >
+      {nameOf(id)}
+    </button>
+  );
+
+  return (
+    // Not modal, so the graph stays usable while the panel is open
+    <Sheet modal={false} open={countryId !== null} onOpenChange={open => !open && onClose()}>
+      <SheetContent
+        className="flex flex-col overflow-y-auto"
+        onInteractOutside={event => event.preventDefault()}
+      >
+        {details && !comparison && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{nameOf(countryId)}</SheetTitle>
+              <SheetDescription>
+                {countryId}
+                {details.country?.continents.length ? ` · ${details.country.continents.join(", ")}` : ""}
+                {details.country?.parent ? ` · part of ${nameOf(details.country.parent)}` : ""}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="flex flex-wrap gap-1">
+              <Badge variant="secondary">
+                {details.neighbors.length} {details.neighbors.length === 1 ? "neighbor" : "neighbors"}
+              </Badge>
+              {details.component && (
+                <Badge variant="outline">
+                  {details.component.countryIds.length === 1
+                    ? "No land neighbors"
+                    : `Land mass of ${nameOf(details.component.hub)} · ${details.component.countryIds.length} countries`}
+                </Badge>
+              )}
+            </div>
+
+            <section className="space-y-1">
+              <h3 className="text-sm font-medium">Centrality</h3>
+              <ul className="space-y-1 text-xs">
+                {Array.from(ranks, ([metric, rankOf]) => (
+                  <li key={metric} className="flex justify-between gap-2">
+                    <span>{centralityMetricLabels[metric]}</span>
+                    <span className="tabular-nums text-muted-foreground">
+                      #{rankOf.get(countryId)} of {rankOf.size} · {formatScore(metric, scores[metric].get(countryId) ?? 0)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section className="space-y-1">
+              <h3 className="text-sm font-medium">Borders</h3>
+              {details.neighbors.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No borders in this dataset</p>
+              ) : (
+                <ul className="space-y-1 text-xs">
+                  {details.neighbors.map(([neighbor, shared]) => (
+                    <li key={neighbor}>
+                      {countryLink(neighbor)}
+                      {shared.map((border, index) => (
+                        <p key={index} className="text-muted-foreground">{describeBorder(border)}</p>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="space-y-1">
+              <h3 className="text-sm font-medium">Two borders away ({details.secondRing.length})</h3>
+              <ul className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                {details.secondRing.map(id => <li key={id}>{countryLink(id)}</li>)}
+              </ul>
+            </section>
+
+            <Select value="" onValueChange={onCompareChange}>
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Compare with..." />
+              </SelectTrigger>
+              <SelectContent>
+                {countryOptions.filter(id => id !== countryId).map(id => (
+                  <SelectItem key={id} value={id}>{nameOf(id)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+
+        {comparison && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{nameOf(countryId)} and {nameOf(compareId)}</SheetTitle>
+              <SheetDescription>
+                {comparison.hops === null
+                  ? "Not connected by any chain of borders"
+                  : `${comparison.hops} ${comparison.hops === 1 ? "border" : "borders"} apart`}
+                {comparison.sameLandMass ? " · same land mass" : ""}
+              </SheetDescription>
+            </SheetHeader>
+
+            <section className="space-y-1">
+              <h3 className="text-sm font-medium">Centrality rank</h3>
+              <ul className="space-y-1 text-xs">
+                <li className="grid grid-cols-[1fr_auto_auto] gap-3 text-muted-foreground">
+                  <span />
+                  <span>{countryId}</span>
+                  <span>{compareId}</span>
+                </li>
+                {Array.from(ranks, ([metric, rankOf]) => (
+                  <li key={metric} className="grid grid-cols-[1fr_auto_auto] gap-3 tabular-nums">
+                    <span>{centralityMetricLabels[metric]}</span>
+                    <span>#{rankOf.get(countryId)}</span>
+                    <span>#{rankOf.get(compareId)}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section className="space-y-1">
+              <h3 className="text-sm font-medium">Shared neighbors ({comparison.shared.length})</h3>
+              <ul className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                {comparison.shared.map(id => <li key={id}>{countryLink(id)}</li>)}
+              </ul>
+            </section>
+
+            <div className="flex flex-wrap gap-x-3 text-xs">
+              {countryLink(countryId)}
+              {countryLink(compareId)}
+              <button type="button" className="ml-auto text-muted-foreground hover:underline" onClick={() => onCompareChange(null)}>
+                Stop comparing
+              </button>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CountryDetailsSheet;
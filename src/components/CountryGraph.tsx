@@ -1,332 +1,980 @@
 
-import React, { useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
+import React, { useEffect, useRef, useState, forwardRef, useId, useImperativeHandle } from 'react';
 import * as d3 from 'd3';
-import { adjacencyList } from '../data/countriesData';
+import { Border, BorderKind, CountryId, countriesById, describeBorder } from '../data/countries';
+import { buildAdjacency, pairKey } from '@/lib/graph';
+import { ConnectedComponent, findLandMasses, isLandMassBorder } from '@/lib/connectivity';
+import { CentralityMetric, computeCentrality, normalizeScores } from '@/lib/centrality';
+import { componentsWithout, findCuts } from '@/lib/articulation';
+import { categoryColor, readGraphColors } from '@/lib/colors';
+import {
+  GraphRenderer,
+  LinkStyle,
+  NodeStyle,
+  RendererKind,
+  Scene,
+  SceneHull,
+  SceneRing,
+  createRenderer,
+  rendererLabels,
+} from '@/lib/renderers';
+import {
+  ForceConfig,
+  ForceSettings,
+  ForceSimulation,
+  createForceSimulation,
+  defaultForceSettings,
+} from '@/lib/forceSimulation';
+import { ViewTransform } from '@/lib/viewState';
+import { GraphSnapshot } from '@/lib/export';
+import { isBorderActive } from '@/lib/timeline';
+import { NameOf, useCountryName } from '@/hooks/use-country-name';
 import { toast } from 'sonner';
 
-// Extended interface to include d3 simulation properties
-interface CountryNode extends d3.SimulationNodeDatum {
-  id: string;
-  neighbors: string[];
+// A country as drawn; `index` addresses it in the worker's simulation, which owns x and y
+interface CountryNode {
+  id: CountryId;
+  index: number;
+  name: string;
+  neighbors: CountryId[];
+  borders: Border[];
+  // Whether the country exists at the shown date, and how far it has faded in (0..1)
+  active: boolean;
+  presence: number;
+  style: NodeStyle;
   x?: number;
   y?: number;
-  fx?: number | null;
-  fy?: number | null;
 }
 
 interface CountryLink {
-  source: string | CountryNode;
-  target: string | CountryNode;
+  source: CountryNode;
+  target: CountryNode;
+  border: Border;
+  title: string;
+  active: boolean;
+  presence: number;
+  style: LinkStyle;
 }
 
+// Everything the renderer-specific interactions need from the graph built for the current borders
+interface GraphState {
+  simulation: ForceSimulation;
+  nodes: CountryNode[];
+  // Current nodes, links and hulls without the transient pulse rings
+  snapshot: () => Omit<Scene, "transform">;
+  requestRender: () => void;
+  // Visible country under a point in graph coordinates
+  pick: (x: number, y: number) => CountryNode | undefined;
+  find: (id: CountryId) => CountryNode | undefined;
+  // Send expanding rings out from a country for a moment
+  pulse: (node: CountryNode) => void;
+  hover: (node: CountryNode | null) => void;
+  showDetails: (node: CountryNode) => void;
+}
+
+// Dragged country together with its position on screen, as d3.drag expects
+interface DragSubject {
+  node: CountryNode;
+  x: number;
+  y: number;
+}
+
+// Dash pattern per border kind; disputed borders are always dotted
+const BORDER_DASHES: Record<BorderKind, number[] | null> = {
+  land: null,
+  bridge: [6, 3],
+  causeway: [4, 2],
+  tunnel: [8, 3, 2, 3],
+  maritime: [10, 5],
+};
+const DISPUTED_DASH = [1, 3];
+
+const borderDash = (border: Border) =>
+  border.disputed ? DISPUTED_DASH : BORDER_DASHES[border.kind];
+
+// First opaque background color from the element up, so exports match what is on screen
+const backgroundBehind = (element: Element | null): string => {
+  for (let current = element; current; current = current.parentElement) {
+    const color = d3.color(getComputedStyle(current).backgroundColor);
+    if (color && color.opacity > 0) return color.formatHex();
+  }
+  return "#ffffff";
+};
+
+// Nodes and border pairs lying on any of the given paths
+const collectPathMembers = (paths: CountryId[][]) => {
+  const nodeIds = new Set<CountryId>();
+  const linkKeys = new Set<string>();
+  paths.forEach(path => path.forEach((id, index) => {
+    nodeIds.add(id);
+    if (index > 0) linkKeys.add(pairKey(path[index - 1], id));
+  }));
+  return { nodeIds, linkKeys };
+};
+
+// Center of each component's cluster region, sized by the number of countries in it
+const clusterCenters = (components: ConnectedComponent[], width: number, height: number) => {
+  type PackDatum = { index?: number; size?: number; children?: PackDatum[] };
+  const root = d3.hierarchy<PackDatum>({
+    children: components.map(component => ({ index: component.index, size: component.countryIds.length }))
+  }).sum(d => d.size ?? 0);
+
+  const centers = new Map<number, { x: number; y: number }>();
+  d3.pack<PackDatum>().size([width, height]).padding(24)(root)
+    .leaves()
+    .forEach(leaf => centers.set(leaf.data.index, { x: leaf.x, y: leaf.y }));
+  return centers;
+};
+
+// Projected centroid of every known country, fitted into the given area
+const MAP_PADDING = 40;
+const projectCentroids = (ids: CountryId[], projection: MapProjection, width: number, height: number) => {
+  const located = ids.filter(id => countriesById[id]);
+  const geoProjection = (projection === "mercator" ? d3.geoMercator() : d3.geoEqualEarth())
+    .fitExtent(
+      [[MAP_PADDING, MAP_PADDING], [width - MAP_PADDING, height - MAP_PADDING]],
+      { type: "MultiPoint", coordinates: located.map(id => countriesById[id].centroid) }
+    );
+
+  const anchors = new Map<CountryId, { x: number; y: number }>();
+  located.forEach(id => {
+    const [x, y] = geoProjection(countriesById[id].centroid);
+    anchors.set(id, { x, y });
+  });
+  return anchors;
+};
+
+// Rings sent out by a pulse, and how long the whole pulse lasts
+const PULSE_RINGS = 3;
+const PULSE_DURATION = 1800;
+const PULSE_SPREAD = 28;
+
+const SCALE_EXTENT: [number, number] = [0.1, 4];
+// Screen margin around the countries a fit brings into view
+const FIT_PADDING = 40;
+const ZOOM_DURATION = 750;
+// How long countries and borders take to appear or disappear when the date changes
+const FADE_DURATION = 400;
+
+// Screen direction of each arrow key, for moving between neighbors
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowRight: [1, 0],
+  ArrowLeft: [-1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+const ARROW_NAMES: Record<string, string> = {
+  ArrowRight: "right",
+  ArrowLeft: "left",
+  ArrowUp: "above",
+  ArrowDown: "below",
+};
+
+// Margin inside the view that keyboard focus keeps a country within, panning when needed
+const FOCUS_MARGIN = 40;
+
+// Search radius around the pointer, in graph units, when looking for the country under it
+const PICK_RADIUS = 12;
+
+const NO_PATHS: CountryId[][] = [];
+
+// "force" pulls every country toward the middle, "components" gives each land mass its own region,
+// "geographic" places countries at their projected centroids
+export type LayoutMode = "force" | "components" | "geographic";
+
+export type MapProjection = "equalEarth" | "mercator";
+
 interface CountryGraphProps {
-  // No props needed after removing forceStrength
+  // Network to draw; a new list rebuilds the graph while the view keeps its pan and zoom
+  borders: Border[];
+  // Date the map shows; countries and borders that did not exist then fade out. Null shows everything.
+  date?: Date | null;
+  // Drawing backend; switching it keeps the layout and the zoom
+  renderer?: RendererKind;
+  // Force parameters; changes are applied to the running simulation
+  forces?: ForceSettings;
+  // Shortest paths to highlight; everything off the paths is faded out
+  paths?: CountryId[][];
+  layout?: LayoutMode;
+  // Map projection for the geographic layout and the geographic pull
+  projection?: MapProjection;
+  // Gently pull each country toward its projected centroid while the force layout runs
+  geoAnchor?: boolean;
+  // Metric that drives node size and color
+  metric?: CentralityMetric;
+  // Outline cut countries and bridge borders of the land network
+  showCuts?: boolean;
+  // Country hidden by the "what if removed" mode; the rest is colored by land mass
+  removedCountry?: CountryId | null;
+  // Community index per country; colors nodes and draws a hull around each community
+  communities?: Map<CountryId, number> | null;
+  // Map coloring to show, possibly partial while a solver is being stepped through
+  coloring?: Map<CountryId, number> | null;
+  // Called with the clicked or focused country so its details can be shown, null when Escape clears it
+  onCountrySelect?: (id: CountryId | null) => void;
+  // Pan and zoom to start from; later changes are ignored
+  initialTransform?: ViewTransform | null;
+  // Called when a pan or zoom gesture ends
+  onTransformChange?: (transform: ViewTransform) => void;
+}
+
+export interface CountryGraphHandle {
+  resetView: () => void;
+  // Scale around the middle of the view, e.g. 2 doubles the zoom
+  zoomBy: (factor: number) => void;
+  // Center a country, zooming in unless the view is already close
+  zoomTo: (id: CountryId) => void;
+  // Fit the given countries into the view; no ids fits every country
+  fitBounds: (ids?: CountryId[]) => void;
+  getTransform: () => ViewTransform;
+  // What is drawn right now, for exporting; null before the graph is built
+  getSnapshot: () => GraphSnapshot | null;
+  // Zoom to a country, pulse it and show its details
+  focusCountry: (id: CountryId) => void;
 }
 
-const CountryGraph = forwardRef<{ resetView: () => void }, CountryGraphProps>(
-  (props, ref) => {
-    const svgRef = useRef<SVGSVGElement>(null);
+const CountryGraph = forwardRef<CountryGraphHandle, CountryGraphProps>(
+  ({ borders, date = null, renderer = "svg", forces = defaultForceSettings, paths = NO_PATHS, layout = "force", projection = "equalEarth", geoAnchor = false, metric = "degree", showCuts = false, removedCountry = null, communities = null, coloring = null, onCountrySelect, initialTransform = null, onTransformChange }, ref) => {
     const containerRef = useRef<HTMLDivElement>(null);
-    const simulationRef = useRef<d3.Simulation<CountryNode, undefined> | null>(null);
-    const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+    const graphRef = useRef<GraphState | null>(null);
+    const rendererRef = useRef<GraphRenderer | null>(null);
+    const zoomRef = useRef<d3.ZoomBehavior<Element, unknown> | null>(null);
+    const transformRef = useRef(
+      initialTransform
+        ? d3.zoomIdentity.translate(initialTransform.x, initialTransform.y).scale(initialTransform.k)
+        : d3.zoomIdentity
+    );
+    // Latest props for the d3 handlers, which are bound once when the graph is built
+    const pathsRef = useRef(paths);
+    const layoutRef = useRef(layout);
+    const projectionRef = useRef(projection);
+    const geoAnchorRef = useRef(geoAnchor);
+    const forcesRef = useRef(forces);
+    const metricRef = useRef(metric);
+    const showCutsRef = useRef(showCuts);
+    const removedRef = useRef(removedCountry);
+    const communitiesRef = useRef(communities);
+    const coloringRef = useRef(coloring);
+    const dateRef = useRef(date);
+    // Names come with the borders, so they are read when the graph is built
+    const nameOfRef = useRef<NameOf>(null);
+    nameOfRef.current = useCountryName();
+    const onCountrySelectRef = useRef(onCountrySelect);
+    onCountrySelectRef.current = onCountrySelect;
+    const onTransformChangeRef = useRef(onTransformChange);
+    onTransformChangeRef.current = onTransformChange;
+    const applyStylesRef = useRef<() => void>(() => {});
+    const applyLayoutRef = useRef<(alpha?: number) => void>(() => {});
+    const applyDateRef = useRef<() => void>(() => {});
+    // Where each country was when the graph was last torn down, so a rebuilt graph starts from there
+    const lastPositionsRef = useRef(new Map<CountryId, { x: number; y: number }>());
+    // Country with keyboard focus; clicks and focusCountry move it too
+    const keyboardNodeRef = useRef<CountryNode | null>(null);
+    const [announcement, setAnnouncement] = useState("");
+    const instructionsId = useId();
+
+    // Animate the view to a transform; false until the graph and its renderer are mounted
+    const transitionTo = (
+      apply: (zoom: d3.ZoomBehavior<Element, unknown>, selection: d3.Transition<Element, unknown, null, undefined>) => void
+    ) => {
+      const element = rendererRef.current?.element;
+      if (!element || !zoomRef.current) return false;
+      apply(zoomRef.current, d3.select<Element, unknown>(element).transition().duration(ZOOM_DURATION));
+      return true;
+    };
 
-    // Fixed force strength value
-    const FORCE_STRENGTH = 120;
+    const viewSize = () => ({
+      width: containerRef.current?.clientWidth ?? 0,
+      height: containerRef.current?.clientHeight ?? 0,
+    });
+
+    const zoomTo = (id: CountryId) => {
+      const node = graphRef.current?.find(id);
+      if (!node) return false;
+      const { width, height } = viewSize();
+      const target = d3.zoomIdentity
+        .translate(width / 2, height / 2)
+        .scale(Math.max(transformRef.current.k, 2))
+        .translate(-(node.x ?? 0), -(node.y ?? 0));
+      return transitionTo((zoom, transition) => transition.call(zoom.transform, target));
+    };
 
-    // Expose resetView function to parent component
-    useImperativeHandle(ref, () => ({
-      resetView: () => {
-        if (svgRef.current && zoomRef.current) {
-          d3.select(svgRef.current)
-            .transition()
-            .duration(750)
-            .call(
-              zoomRef.current.transform,
-              d3.zoomIdentity,
-              d3.zoomTransform(svgRef.current).invert([
-                containerRef.current?.clientWidth! / 2,
-                containerRef.current?.clientHeight! / 2,
-              ])
-            );
+    const describeNode = (node: CountryNode) => {
+      const names = node.neighbors
+        .filter(id => graphRef.current?.find(id)?.active !== false)
+        .map(nameOfRef.current)
+        .sort((a, b) => a.localeCompare(b));
+      if (names.length === 0) return `${node.name}, no neighbors`;
+      return `${node.name}, ${names.length} ${names.length === 1 ? "neighbor" : "neighbors"}: ${names.join(", ")}`;
+    };
+
+    // Highlight a country like a hover does and pan it into view if it sits near the edge
+    const moveKeyboardFocus = (node: CountryNode) => {
+      keyboardNodeRef.current = node;
+      graphRef.current?.hover(node);
+      setAnnouncement(describeNode(node));
+
+      const { width, height } = viewSize();
+      const [x, y] = transformRef.current.apply([node.x ?? 0, node.y ?? 0]);
+      if (x < FOCUS_MARGIN || x > width - FOCUS_MARGIN || y < FOCUS_MARGIN || y > height - FOCUS_MARGIN) {
+        transitionTo((zoom, transition) => transition.call(zoom.translateTo, node.x ?? 0, node.y ?? 0));
+      }
+    };
+
+    // Closest neighbor in the arrow's direction, within 90 degrees of it
+    const neighborToward = (node: CountryNode, [dx, dy]: [number, number]) => {
+      const graph = graphRef.current;
+      let best: CountryNode | undefined;
+      let bestScore = 0;
+      node.neighbors.forEach(id => {
+        const neighbor = graph?.find(id);
+        if (!neighbor || neighbor.style?.opacity === 0) return;
+        const vx = (neighbor.x ?? 0) - (node.x ?? 0);
+        const vy = (neighbor.y ?? 0) - (node.y ?? 0);
+        const distance = Math.hypot(vx, vy) || 1;
+        // Alignment with the arrow counts most; among similar angles the nearer neighbor wins
+        const score = (vx * dx + vy * dy) / distance / Math.sqrt(distance);
+        if (score > bestScore) {
+          best = neighbor;
+          bestScore = score;
+        }
+      });
+      return best;
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+      const graph = graphRef.current;
+      if (!graph || event.target !== event.currentTarget) return;
+      const current = keyboardNodeRef.current;
+      // Tab order follows the country names
+      const ordered = graph.nodes
+        .filter(node => node.style?.opacity !== 0)
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      if (event.key === "Tab") {
+        const index = current ? ordered.indexOf(current) : -1;
+        const next = event.shiftKey
+          ? (index === -1 ? ordered.length - 1 : index - 1)
+          : index + 1;
+        // Past either end Tab leaves the graph as usual
+        if (next < 0 || next >= ordered.length) {
+          keyboardNodeRef.current = null;
+          graph.hover(null);
+          return;
+        }
+        event.preventDefault();
+        moveKeyboardFocus(ordered[next]);
+      } else if (event.key in ARROW_DIRECTIONS) {
+        event.preventDefault();
+        if (!current) {
+          // Start from the most connected country on screen
+          const first = graph.nodes.find(node => node.style?.opacity !== 0);
+          if (first) moveKeyboardFocus(first);
+          return;
         }
+        const neighbor = neighborToward(current, ARROW_DIRECTIONS[event.key]);
+        if (neighbor) moveKeyboardFocus(neighbor);
+        else setAnnouncement(`No neighbor of ${current.name} ${ARROW_NAMES[event.key]}`);
+      } else if (event.key === "Enter" && current) {
+        event.preventDefault();
+        graph.pulse(current);
+        graph.showDetails(current);
+        setAnnouncement(`Selected ${describeNode(current)}`);
+      } else if (event.key === "Escape") {
+        keyboardNodeRef.current = null;
+        graph.hover(null);
+        onCountrySelectRef.current?.(null);
+        setAnnouncement("Selection cleared");
       }
+    };
+
+    // Expose view controls to parent component
+    useImperativeHandle(ref, () => ({
+      resetView: () => {
+        transitionTo((zoom, transition) => transition.call(zoom.transform, d3.zoomIdentity));
+      },
+
+      zoomBy: factor => {
+        transitionTo((zoom, transition) => transition.call(zoom.scaleBy, factor));
+      },
+
+      zoomTo,
+
+      fitBounds: ids => {
+        const graph = graphRef.current;
+        if (!graph) return;
+        const nodes = (ids ? ids.map(graph.find) : graph.nodes)
+          .filter(node => node && node.x !== undefined && node.style?.opacity !== 0);
+        if (nodes.length === 0) return;
+
+        const left = d3.min(nodes, node => node.x - node.style.radius);
+        const right = d3.max(nodes, node => node.x + node.style.radius);
+        const top = d3.min(nodes, node => node.y - node.style.radius);
+        const bottom = d3.max(nodes, node => node.y + node.style.radius);
+        const { width, height } = viewSize();
+        const scale = Math.min(
+          SCALE_EXTENT[1],
+          Math.max(SCALE_EXTENT[0], Math.min(
+            (width - 2 * FIT_PADDING) / Math.max(right - left, 1),
+            (height - 2 * FIT_PADDING) / Math.max(bottom - top, 1)
+          ))
+        );
+        const target = d3.zoomIdentity
+          .translate(width / 2, height / 2)
+          .scale(scale)
+          .translate(-(left + right) / 2, -(top + bottom) / 2);
+        transitionTo((zoom, transition) => transition.call(zoom.transform, target));
+      },
+
+      getTransform: () => {
+        const { x, y, k } = transformRef.current;
+        return { x, y, k };
+      },
+
+      getSnapshot: () => {
+        const graph = graphRef.current;
+        const container = containerRef.current;
+        if (!graph || !container) return null;
+        const { width, height } = viewSize();
+        return {
+          scene: { ...graph.snapshot(), transform: transformRef.current },
+          width,
+          height,
+          background: backgroundBehind(container),
+          fontFamily: getComputedStyle(container).fontFamily,
+        };
+      },
+
+      focusCountry: id => {
+        const graph = graphRef.current;
+        const node = graph?.find(id);
+        if (!node || !zoomTo(id)) return;
+        graph.pulse(node);
+        graph.showDetails(node);
+      },
     }));
 
     useEffect(() => {
-      if (!svgRef.current || !containerRef.current) return;
-
-      // Clear previous visualization if any
-      d3.select(svgRef.current).selectAll("*").remove();
+      if (!containerRef.current) return;
 
       // Show loading toast
       const loadingToast = toast.loading("Building country network...");
 
-      // Check for dark mode
-      const isDarkMode = document.documentElement.classList.contains('dark');
-      
-      // Define color schemes based on theme
-      const nodeColors = isDarkMode 
-        ? ["#60A5FA", "#3B82F6", "#2563EB"] // Blue shades for dark mode
-        : ["#67B7D1", "#3E5C76", "#0A2463"]; // Original colors for light mode
-      
-      const textColor = isDarkMode ? "#E5E7EB" : "#333"; // Text color based on theme
-      const linkColor = isDarkMode ? "#4B5563" : "#999"; // Link color based on theme
-      const activeColor = isDarkMode ? "#F87171" : "#FF6B6B"; // Highlight color
+      // Theme colors come from CSS variables and are read again whenever the theme changes
+      let colors = readGraphColors(containerRef.current);
 
       // Prepare data
-      const countries = new Set<string>();
-      const links: CountryLink[] = [];
-
-      // Extract unique countries and links
-      adjacencyList.forEach(entry => {
-        const [source, target] = entry;
-        countries.add(source);
-        countries.add(target);
-        links.push({ source, target });
+      const nameOf = nameOfRef.current;
+      const countries = new Set(borders.flatMap(border => [border.source, border.target]));
+
+      // Sort nodes by number of connections (for coloring); styles are filled in by applyStyles
+      const nodes: CountryNode[] = Array.from(countries).map(id => {
+        const ownBorders = borders.filter(border => border.source === id || border.target === id);
+        return {
+          id,
+          index: 0,
+          name: nameOf(id),
+          neighbors: Array.from(new Set(
+            ownBorders.map(border => border.source === id ? border.target : border.source)
+          )),
+          borders: ownBorders,
+          active: true,
+          presence: 1,
+          style: null,
+        };
+      }).sort((a, b) => b.neighbors.length - a.neighbors.length);
+
+      nodes.forEach((d, index) => { d.index = index; });
+      const nodeById = new Map(nodes.map(d => [d.id, d]));
+
+      const links: CountryLink[] = borders.map(border => ({
+        source: nodeById.get(border.source),
+        target: nodeById.get(border.target),
+        border,
+        title: `${nameOf(border.source)} – ${nameOf(border.target)}: ${describeBorder(border)}`,
+        active: true,
+        presence: 1,
+        style: null,
+      }));
+
+      // Land masses, cuts and metrics describe the network as it stood at the shown date
+      let landMasses: ReturnType<typeof findLandMasses>;
+      let landAdjacency: ReturnType<typeof buildAdjacency>;
+      let articulationIds: Set<CountryId>;
+      let bridgeKeys: Set<string>;
+      let metricValues: Record<CentralityMetric, Map<CountryId, number>>;
+      const analyze = () => {
+        const shown = dateRef.current;
+        links.forEach(l => { l.active = !shown || isBorderActive(l.border, shown); });
+        const activeBorders = links.filter(l => l.active).map(l => l.border);
+        const activeIds = new Set(activeBorders.flatMap(border => [border.source, border.target]));
+        nodes.forEach(d => { d.active = activeIds.has(d.id); });
+
+        landMasses = findLandMasses(activeBorders);
+        landAdjacency = buildAdjacency(activeBorders.filter(isLandMassBorder), activeIds);
+        const cuts = findCuts(landAdjacency);
+        articulationIds = new Set(cuts.articulationPoints);
+        bridgeKeys = new Set(cuts.bridges.map(([a, b]) => pairKey(a, b)));
+        metricValues = Object.fromEntries(
+          Object.entries(computeCentrality(activeBorders)).map(([key, scores]) => [key, normalizeScores(scores)])
+        ) as Record<CentralityMetric, Map<CountryId, number>>;
+      };
+      analyze();
+      [...nodes, ...links].forEach(item => { item.presence = item.active ? 1 : 0; });
+
+      const scene = { nodes, links, hulls: [] as SceneHull[], rings: [] as SceneRing[] };
+
+      // Coalesce ticks, zooms and restyles into one draw per animation frame
+      let frame = 0;
+      const requestRender = () => {
+        if (frame) return;
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          rendererRef.current?.render({ ...scene, transform: transformRef.current });
+        });
+      };
+
+      // Quadtree over the visible countries, rebuilt lazily after the layout or the styles change
+      let quadtree: d3.Quadtree<CountryNode> | null = null;
+
+      // Node positions as x,y pairs in node order, NaN where a country has no position
+      const positionArray = (positionOf: (d: CountryNode) => { x: number; y: number } | undefined) => {
+        const array = new Float32Array(nodes.length * 2).fill(NaN);
+        nodes.forEach((d, index) => {
+          const position = positionOf(d);
+          if (!position) return;
+          array[2 * index] = position.x;
+          array[2 * index + 1] = position.y;
+        });
+        return array;
+      };
+
+      // Countries kept from the previous graph start where they were, new ones next to their kept neighbors
+      const lastPositions = lastPositionsRef.current;
+      const startPosition = (d: CountryNode) => {
+        if (lastPositions.has(d.id)) return lastPositions.get(d.id);
+        const placed = d.neighbors.map(id => lastPositions.get(id)).filter(Boolean);
+        if (placed.length === 0) return undefined;
+        return { x: d3.mean(placed, p => p.x), y: d3.mean(placed, p => p.y) };
+      };
+      nodes.forEach(d => Object.assign(d, startPosition(d)));
+
+      // The simulation runs in a worker; this thread only copies the positions it streams back
+      const simulation = createForceSimulation({
+        nodeCount: nodes.length,
+        links: links.map(l => [l.source.index, l.target.index]),
+        positions: positionArray(startPosition),
+        onTick: positions => {
+          nodes.forEach((d, index) => {
+            d.x = positions[2 * index];
+            d.y = positions[2 * index + 1];
+          });
+          quadtree = null;
+          requestRender();
+        },
       });
 
-      const nodes: CountryNode[] = Array.from(countries).map(id => ({
-        id,
-        neighbors: adjacencyList
-          .filter(entry => entry[0] === id || entry[1] === id)
-          .map(entry => entry[0] === id ? entry[1] : entry[0])
-      }));
+      // Swap the forces for the current layout mode and reheat the simulation,
+      // which animates the nodes from wherever they are to the new arrangement
+      const applyLayout = (alpha = 0.5) => {
+        if (!containerRef.current) return;
+        const width = containerRef.current.clientWidth;
+        const height = containerRef.current.clientHeight || window.innerHeight * 0.8;
+        const anchors = projectCentroids(nodes.map(d => d.id), projectionRef.current, width, height);
+        const geographic = layoutRef.current === "geographic";
+        // Weak pull toward the map position on top of the regular forces
+        const pull = geoAnchorRef.current && layoutRef.current === "force";
+        const settings = forcesRef.current;
+
+        const config: ForceConfig = {
+          charge: geographic ? null : -settings.charge,
+          linkDistance: geographic ? null : settings.linkDistance,
+          collisionRadius: geographic || !settings.collisionEnabled ? null : settings.collisionRadius,
+          center: null,
+          targets: null,
+          targetStrength: 0,
+          anchors: pull ? positionArray(d => anchors.get(d.id)) : null,
+          anchorStrength: 0.05,
+          gravity: !geographic && settings.gravityEnabled && settings.gravity > 0
+            ? { x: width / 2, y: height / 2, strength: settings.gravity }
+            : null,
+          alphaDecay: settings.alphaDecay,
+        };
+
+        if (geographic) {
+          // Countries without a centroid keep their place
+          config.targets = positionArray(d => anchors.get(d.id));
+          config.targetStrength = 0.3;
+        } else if (layoutRef.current === "components") {
+          const centers = clusterCenters(landMasses.components, width, height);
+          config.targets = positionArray(d => centers.get(landMasses.componentOf.get(d.id)));
+          config.targetStrength = 0.15;
+        } else {
+          config.center = [width / 2, height / 2];
+        }
 
-      // Sort nodes by number of connections (for coloring)
-      nodes.sort((a, b) => b.neighbors.length - a.neighbors.length);
-
-      // Create the visualization
-      const containerWidth = containerRef.current.clientWidth;
-      const containerHeight = containerRef.current.clientHeight || window.innerHeight * 0.8;
-
-      const svg = d3.select(svgRef.current)
-        .attr("width", containerWidth)
-        .attr("height", containerHeight)
-        .attr("viewBox", `0 0 ${containerWidth} ${containerHeight}`)
-        .attr("preserveAspectRatio", "xMidYMid meet");
-
-      // Create group for zoom/pan
-      const g = svg.append("g");
-
-      // Create simulation with fixed force strength
-      const simulation = d3.forceSimulation<CountryNode>(nodes)
-        .force("charge", d3.forceManyBody().strength(-FORCE_STRENGTH))
-        .force("center", d3.forceCenter(containerWidth / 2, containerHeight / 2))
-        .force("link", d3.forceLink<CountryNode, CountryLink>(links)
-          .id(d => d.id)
-          .distance(80))
-        .force("collision", d3.forceCollide().radius(40))
-        .alphaDecay(0.01);
-
-      simulationRef.current = simulation;
-
-      // Create links
-      const link = g.append("g")
-        .attr("stroke", linkColor)
-        .attr("stroke-opacity", 0.4)
-        .selectAll("line")
-        .data(links)
-        .join("line")
-        .attr("stroke-width", 0.8);
-
-      // Create nodes
-      const node = g.append("g")
-        .selectAll(".node")
-        .data(nodes)
-        .join("g")
-        .attr("class", "node")
-        .call(drag(simulation));
-
-      // Create circles for nodes
-      node.append("circle")
-        .attr("r", d => 4 + Math.min(d.neighbors.length / 2, 5))
-        .attr("fill", d => {
-          const colorScale = d3.scaleLinear<string>()
-            .domain([0, 20, 40])
-            .range(nodeColors)
-            .interpolate(d3.interpolateHcl);
-          
-          return colorScale(Math.min(d.neighbors.length, 40));
-        })
-        .attr("stroke", isDarkMode ? "#374151" : "#fff") // Border color based on theme
-        .attr("stroke-width", 1.5);
-
-      // Add country labels - now always visible
-      const labels = node.append("text")
-        .attr("dx", d => 8 + Math.min(d.neighbors.length / 2, 5))
-        .attr("dy", 4)
-        .text(d => d.id)
-        .attr("font-size", d => {
-          const size = 10 + Math.min(d.neighbors.length / 10, 2);
-          return `${size}px`;
-        })
-        .style("fill", textColor)
-        .style("pointer-events", "none")
-        .style("opacity", 1); // Always visible
-
-      // Node hover interaction
-      node
-        .on("mouseover", function(event, d) {
-          d3.select(this).select("circle")
-            .transition()
-            .duration(200)
-            .attr("r", 8 + Math.min(d.neighbors.length / 2, 5))
-            .attr("fill", activeColor);
-
-          // Highlight connections
-          link
-            .transition()
-            .duration(200)
-            .attr("stroke-opacity", l => {
-              return (l.source === d || l.target === d) ? 0.8 : 0.1;
-            })
-            .attr("stroke", l => {
-              return (l.source === d || l.target === d) ? activeColor : linkColor;
-            })
-            .attr("stroke-width", l => {
-              return (l.source === d || l.target === d) ? 2 : 0.8;
-            });
-        })
-        .on("mouseout", function(event, d) {
-          d3.select(this).select("circle")
-            .transition()
-            .duration(200)
-            .attr("r", 4 + Math.min(d.neighbors.length / 2, 5))
-            .attr("fill", d => {
-              const colorScale = d3.scaleLinear<string>()
-                .domain([0, 20, 40])
-                .range(nodeColors)
-                .interpolate(d3.interpolateHcl);
-              
-              return colorScale(Math.min(d.neighbors.length, 40));
-            });
-
-          // Reset link styles
-          link
-            .transition()
-            .duration(200)
-            .attr("stroke-opacity", 0.4)
-            .attr("stroke", linkColor)
-            .attr("stroke-width", 0.8);
-        })
-        .on("click", (event, d) => {
-          // On click, show country info
-          toast.info(`${d.id} has borders with ${d.neighbors.length} countries`, {
-            description: d.neighbors.slice(0, 5).join(", ") + 
-                        (d.neighbors.length > 5 ? ` and ${d.neighbors.length - 5} more...` : "")
+        simulation.setForces(config, alpha);
+      };
+
+      applyLayoutRef.current = applyLayout;
+      // A gentle start lets kept countries settle instead of scattering
+      applyLayout(lastPositions.size > 0 ? 0.3 : 1);
+
+      // Size and color follow the selected metric, scaled to 0..1
+      const metricValue = (d: CountryNode) => metricValues[metricRef.current].get(d.id) ?? 0;
+      const colorScale = d3.scaleLinear<string>()
+        .domain([0, 0.5, 1])
+        .range(colors.nodeScale)
+        .interpolate(d3.interpolateHcl);
+      const nodeColor = (d: CountryNode) => colorScale(metricValue(d));
+      const nodeRadius = (d: CountryNode) => 4 + 5 * metricValue(d);
+      const linkKey = (l: CountryLink) => pairKey(l.border.source, l.border.target);
+
+      // Hovered country, highlighted together with its borders
+      let hovered: CountryNode | null = null;
+
+      // Resting styles: everything at its default unless a path is highlighted
+      const applyStyles = () => {
+        const { nodeIds, linkKeys } = collectPathMembers(pathsRef.current);
+        const highlighting = nodeIds.size > 0;
+        const showCuts = showCutsRef.current;
+        const removed = removedRef.current;
+        // Land masses left over once the "what if removed" country is taken out
+        const remaining = removed ? componentsWithout(landAdjacency, removed).componentOf : null;
+
+        const onPath = (l: CountryLink) => highlighting && linkKeys.has(linkKey(l));
+        const isBridge = (l: CountryLink) =>
+          showCuts && isLandMassBorder(l.border) && bridgeKeys.has(linkKey(l));
+        const isCut = (d: CountryNode) => showCuts && articulationIds.has(d.id);
+        const touchesRemoved = (l: CountryLink) =>
+          l.border.source === removed || l.border.target === removed;
+        const touchesHovered = (l: CountryLink) => l.source === hovered || l.target === hovered;
+
+        const fill = (d: CountryNode) => {
+          if (d === hovered) return colors.active;
+          if (highlighting && nodeIds.has(d.id)) return colors.active;
+          if (remaining) return remaining.has(d.id) ? categoryColor(colors, remaining.get(d.id)) : colors.link;
+          // Countries the solver has not reached yet stay neutral
+          if (coloringRef.current) {
+            return coloringRef.current.has(d.id) ? categoryColor(colors, coloringRef.current.get(d.id)) : colors.link;
+          }
+          if (communitiesRef.current?.has(d.id)) return categoryColor(colors, communitiesRef.current.get(d.id));
+          return nodeColor(d);
+        };
+
+        nodes.forEach(d => {
+          d.style = {
+            // Countries grow out of nothing as they come into existence and shrink away as they go
+            radius: (nodeRadius(d) + (d === hovered ? 4 : 0)) * d.presence,
+            fill: fill(d),
+            stroke: isCut(d) ? colors.cut : colors.nodeStroke,
+            strokeWidth: isCut(d) ? 3 : 1.5,
+            opacity: d.id === removed ? 0 : (!highlighting || nodeIds.has(d.id) ? 1 : 0.15) * d.presence,
+            labelSize: 10 + 2 * metricValue(d),
+            labelColor: colors.label,
+          };
+        });
+
+        links.forEach(l => {
+          const dash = borderDash(l.border);
+          if (touchesRemoved(l)) {
+            l.style = { color: colors.link, opacity: 0, width: 0.8, dash };
+          } else if (hovered) {
+            const touching = touchesHovered(l);
+            l.style = {
+              color: touching ? colors.active : colors.link,
+              opacity: touching ? 0.8 : 0.1,
+              width: touching ? 2 : 0.8,
+              dash,
+            };
+          } else {
+            const emphasized = onPath(l) || isBridge(l);
+            l.style = {
+              color: onPath(l) ? colors.active : isBridge(l) ? colors.cut : colors.link,
+              opacity: emphasized ? 0.9 : highlighting ? 0.05 : 0.4,
+              width: emphasized ? 2.5 : 0.8,
+              dash,
+            };
+          }
+          l.style.opacity *= l.presence;
+        });
+
+        // Community hulls sit underneath links and nodes
+        const communityOf = communitiesRef.current;
+        scene.hulls = communityOf
+          ? d3.groups(
+              nodes.filter(d => d.active && d.id !== removed && communityOf.has(d.id)),
+              d => communityOf.get(d.id)
+            ).map(([index, members]) => ({ key: String(index), members, color: categoryColor(colors, index) }))
+          : [];
+
+        quadtree = null;
+        requestRender();
+      };
+
+      applyStylesRef.current = applyStyles;
+      applyStyles();
+
+      // Ease every country and border toward its presence at the new date
+      let fadeTimer: d3.Timer | null = null;
+      const applyDate = () => {
+        analyze();
+        fadeTimer?.stop();
+        const items = [...nodes, ...links];
+        const start = items.map(item => item.presence);
+        fadeTimer = d3.timer(elapsed => {
+          const t = d3.easeCubicInOut(Math.min(1, elapsed / FADE_DURATION));
+          items.forEach((item, index) => {
+            item.presence = start[index] + ((item.active ? 1 : 0) - start[index]) * t;
           });
-          
-          // Prevent triggering other events
-          event.stopPropagation();
+          applyStyles();
+          if (t >= 1) fadeTimer.stop();
         });
+        if (layoutRef.current === "components") applyLayout(0.3);
+      };
 
-      // Set up the simulation tick
-      simulation.on("tick", () => {
-        link
-          .attr("x1", d => (d.source as CountryNode).x || 0)
-          .attr("y1", d => (d.source as CountryNode).y || 0)
-          .attr("x2", d => (d.target as CountryNode).x || 0)
-          .attr("y2", d => (d.target as CountryNode).y || 0);
+      applyDateRef.current = applyDate;
 
-        node.attr("transform", d => `translate(${d.x || 0},${d.y || 0})`);
-      });
+      const pick = (x: number, y: number) => {
+        if (!quadtree) {
+          quadtree = d3.quadtree<CountryNode>()
+            .x(d => d.x ?? 0)
+            .y(d => d.y ?? 0)
+            .addAll(nodes.filter(d => d.style.opacity > 0));
+        }
+        return quadtree.find(x, y, PICK_RADIUS);
+      };
 
-      // Set up zoom handling
-      const zoom = d3.zoom<SVGSVGElement, unknown>()
-        .scaleExtent([0.1, 4])
-        .on("zoom", (event) => {
-          g.attr("transform", event.transform);
+      let pulseTimer: d3.Timer | null = null;
+      const pulse = (node: CountryNode) => {
+        pulseTimer?.stop();
+        pulseTimer = d3.timer(elapsed => {
+          const progress = elapsed / PULSE_DURATION;
+          if (progress >= 1) {
+            pulseTimer.stop();
+            scene.rings = [];
+          } else {
+            const wave = (progress * PULSE_RINGS) % 1;
+            scene.rings = [{
+              node,
+              radius: node.style.radius + 2 + wave * PULSE_SPREAD,
+              color: colors.active,
+              opacity: 1 - wave,
+            }];
+          }
+          requestRender();
         });
+      };
 
-      zoomRef.current = zoom;
-      svg.call(zoom);
+      graphRef.current = {
+        simulation,
+        nodes,
+        snapshot: () => ({ ...scene, rings: [] }),
+        requestRender,
+        pick,
+        find: id => nodeById.get(id),
+        pulse,
+        hover: node => {
+          if (node === hovered) return;
+          hovered = node;
+          applyStyles();
+        },
+        showDetails: d => {
+          keyboardNodeRef.current = d;
+          onCountrySelectRef.current?.(d.id);
+        },
+      };
 
       // Handle window resize
       const handleResize = () => {
         if (containerRef.current) {
           const width = containerRef.current.clientWidth;
           const height = containerRef.current.clientHeight || window.innerHeight * 0.8;
-          
-          svg
-            .attr("width", width)
-            .attr("height", height)
-            .attr("viewBox", `0 0 ${width} ${height}`);
-          
-          simulation
-            .force("center", d3.forceCenter(width / 2, height / 2))
-            .alpha(0.3)
-            .restart();
+
+          rendererRef.current?.resize(width, height);
+          applyLayout(0.3);
+          requestRender();
         }
       };
 
       window.addEventListener("resize", handleResize);
 
-      // Disable right-click menu
-      svg.on("contextmenu", (event) => {
-        event.preventDefault();
-      });
-
       // Close loading toast after simulation stabilizes
       setTimeout(() => {
         toast.dismiss(loadingToast);
         toast.success(`Loaded ${countries.size} countries with ${links.length} borders`);
       }, 1500);
 
-      // Add theme change listener
-      const handleThemeChange = () => {
-        if (containerRef.current) {
-          // Redraw graph when theme changes
-          handleResize();
-        }
-      };
-
-      // Listen for theme changes
-      window.matchMedia('(prefers-color-scheme: dark)')
-        .addEventListener('change', handleThemeChange);
+      // Recolor in place when the theme class or the palette on the root element changes; the layout keeps running
+      const themeObserver = new MutationObserver(() => {
+        if (!containerRef.current) return;
+        colors = readGraphColors(containerRef.current);
+        colorScale.range(colors.nodeScale);
+        applyStyles();
+      });
+      themeObserver.observe(document.documentElement, { attributes: true, attributeFilter: ["class", "data-palette"] });
 
       return () => {
+        lastPositionsRef.current = new Map(
+          nodes.filter(d => d.x !== undefined).map(d => [d.id, { x: d.x, y: d.y }])
+        );
         simulation.stop();
+        pulseTimer?.stop();
+        fadeTimer?.stop();
+        cancelAnimationFrame(frame);
+        graphRef.current = null;
+        keyboardNodeRef.current = null;
         window.removeEventListener("resize", handleResize);
-        window.matchMedia('(prefers-color-scheme: dark)')
-          .removeEventListener('change', handleThemeChange);
+        themeObserver.disconnect();
         toast.dismiss(loadingToast);
       };
-    }, []); // Rerun when theme changes
-
-    // Drag function for the nodes
-    const drag = (simulation: d3.Simulation<CountryNode, undefined>) => {
-      function dragstarted(event: any, d: CountryNode) {
-        if (!event.active) simulation.alphaTarget(0.3).restart();
-        d.fx = d.x;
-        d.fy = d.y;
-      }
-      
-      function dragged(event: any, d: CountryNode) {
-        d.fx = event.x;
-        d.fy = event.y;
-      }
-      
-      function dragended(event: any, d: CountryNode) {
-        if (!event.active) simulation.alphaTarget(0);
-        d.fx = null;
-        d.fy = null;
+    }, [borders]); // Rebuilt for new borders only; theme changes recolor in place
+
+    // Mount the drawing backend and bind zoom, drag and picking to it, again whenever the graph is rebuilt
+    useEffect(() => {
+      const graph = graphRef.current;
+      const container = containerRef.current;
+      if (!graph || !container) return;
+
+      const backend = createRenderer(renderer, container);
+      if (backend.kind !== renderer) {
+        toast.warning(`${rendererLabels[renderer]} is not available, drawing with ${rendererLabels[backend.kind]}`);
       }
-      
-      return d3.drag<SVGGElement, CountryNode>()
-        .on("start", dragstarted)
-        .on("drag", dragged)
-        .on("end", dragended);
-    };
+      rendererRef.current = backend;
+      // Screen readers get the container's keyboard model and live region instead of the drawing
+      backend.element.setAttribute("aria-hidden", "true");
+      backend.resize(container.clientWidth, container.clientHeight || window.innerHeight * 0.8);
+
+      const element = d3.select<Element, unknown>(backend.element);
+      const pickAt = (event: Event) => {
+        const [x, y] = transformRef.current.invert(d3.pointer(event, backend.element));
+        return graph.pick(x, y);
+      };
+
+      // Drag subjects are found by picking, so the same code serves every backend
+      const drag = d3.drag<Element, unknown, DragSubject>()
+        .container(backend.element)
+        .subject(event => {
+          const transform = transformRef.current;
+          const [x, y] = transform.invert([event.x, event.y]);
+          const node = graph.pick(x, y);
+          return node && { node, x: transform.applyX(node.x), y: transform.applyY(node.y) };
+        })
+        .on("start", event => {
+          if (!event.active) graph.simulation.setAlphaTarget(0.3);
+          const { node } = event.subject;
+          graph.simulation.pin(node.index, node.x, node.y);
+        })
+        .on("drag", event => {
+          // Move the node right away instead of waiting for the worker's next tick
+          const { node } = event.subject;
+          node.x = transformRef.current.invertX(event.x);
+          node.y = transformRef.current.invertY(event.y);
+          graph.simulation.pin(node.index, node.x, node.y);
+          graph.requestRender();
+        })
+        .on("end", event => {
+          if (!event.active) graph.simulation.setAlphaTarget(0);
+          graph.simulation.release(event.subject.node.index);
+        });
+
+      // Set up zoom handling
+      const zoom = d3.zoom<Element, unknown>()
+        .scaleExtent(SCALE_EXTENT)
+        .on("zoom", (event) => {
+          transformRef.current = event.transform;
+          graph.requestRender();
+        })
+        .on("end", (event) => {
+          const { x, y, k } = event.transform;
+          onTransformChangeRef.current?.({ x, y, k });
+        });
+
+      zoomRef.current = zoom;
+
+      // Drag goes first so it can claim presses on a country before zoom starts panning
+      element
+        .call(drag)
+        .call(zoom)
+        .call(zoom.transform, transformRef.current)
+        .on("pointermove.pick", event => {
+          const node = pickAt(event);
+          graph.hover(node ?? null);
+          backend.element.style.cursor = node ? "pointer" : "";
+        })
+        .on("pointerleave.pick", () => graph.hover(null))
+        .on("click.pick", event => {
+          const node = pickAt(event);
+          if (node) graph.showDetails(node);
+        })
+        // Disable right-click menu
+        .on("contextmenu", (event) => {
+          event.preventDefault();
+        });
+
+      graph.requestRender();
+
+      return () => {
+        element.on(".drag", null).on(".zoom", null).on(".pick", null).on("contextmenu", null);
+        backend.destroy();
+        rendererRef.current = null;
+      };
+    }, [renderer, borders]);
+
+    // Move the running simulation to the new layout without rebuilding the graph
+    useEffect(() => {
+      if (
+        layoutRef.current === layout &&
+        projectionRef.current === projection &&
+        geoAnchorRef.current === geoAnchor
+      ) return;
+      layoutRef.current = layout;
+      projectionRef.current = projection;
+      geoAnchorRef.current = geoAnchor;
+      applyLayoutRef.current();
+    }, [layout, projection, geoAnchor]);
+
+    // Retune the running simulation; a gentle reheat lets the layout settle into the new forces
+    useEffect(() => {
+      if (forcesRef.current === forces) return;
+      forcesRef.current = forces;
+      applyLayoutRef.current(0.3);
+    }, [forces]);
+
+    // Fade countries and borders in and out when the date moves; the layout keeps running
+    useEffect(() => {
+      if (dateRef.current === date) return;
+      dateRef.current = date;
+      applyDateRef.current();
+    }, [date]);
+
+    // Restyle in place when highlights, the metric, communities, the coloring or the removed country change
+    useEffect(() => {
+      pathsRef.current = paths;
+      metricRef.current = metric;
+      showCutsRef.current = showCuts;
+      removedRef.current = removedCountry;
+      communitiesRef.current = communities;
+      coloringRef.current = coloring;
+      applyStylesRef.current();
+    }, [paths, metric, showCuts, removedCountry, communities, coloring]);
 
     return (
-      <div 
-        ref={containerRef} 
-        className="w-full h-full overflow-hidden touch-none"
+      <div
+        ref={containerRef}
+        className="relative w-full h-full overflow-hidden touch-none outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring"
+        tabIndex={0}
+        role="application"
+        aria-label="Country border graph"
+        aria-describedby={instructionsId}
+        onKeyDown={handleKeyDown}
       >
-        <svg
-          ref={svgRef}
-          className="w-full h-full"
-        />
+        <p id={instructionsId} className="sr-only">
+          Tab and Shift+Tab move through the countries by name, arrow keys move to the nearest
+          neighbor in that direction, Enter shows the country's details and Escape clears the selection.
+        </p>
+        <div className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
       </div>
     );
   }
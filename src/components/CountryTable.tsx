@@ -0,0 +1,99 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Border, CountryId } from '@/data/countries';
+import { useCountryName } from '@/hooks/use-country-name';
+import { buildAdjacency } from '@/lib/graph';
+import { ComponentAnalysis } from '@/lib/connectivity';
+import { CentralityMetric, CentralityScores, centralityMetricLabels } from '@/lib/centrality';
+
+interface CountryTableProps {
+  borders: Border[];
+  scores: CentralityScores;
+  metric: CentralityMetric;
+  landMasses: ComponentAnalysis;
+  // Row kept in sync with the graph's selection
+  selectedCountry: CountryId | null;
+  onSelect: (id: CountryId) => void;
+}
+
+const formatScore = (metric: CentralityMetric, score: number) =>
+  metric === "degree" ? String(score) : score.toFixed(3);
+
+// The graph as a table, for screen readers and anyone who prefers rows to a drawing
+const CountryTable: React.FC<CountryTableProps> = ({
+  borders,
+  scores,
+  metric,
+  landMasses,
+  selectedCountry,
+  onSelect,
+}) => {
+  const nameOf = useCountryName();
+  const selectedRowRef = useRef<HTMLTableRowElement>(null);
+
+  const rows = useMemo(() => {
+    const adjacency = buildAdjacency(borders);
+    return Array.from(adjacency, ([id, neighbors]) => ({
+      id,
+      name: nameOf(id),
+      neighbors: Array.from(neighbors.keys()).map(nameOf).sort((a, b) => a.localeCompare(b)),
+      landMass: landMasses.components[landMasses.componentOf.get(id)],
+    })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [borders, landMasses, nameOf]);
+
+  useEffect(() => {
+    selectedRowRef.current?.scrollIntoView({ block: "nearest" });
+  }, [selectedCountry]);
+
+  return (
+    <Table>
+      <TableCaption>
+        {rows.length} countries. Choose a country to select it on the graph.
+      </TableCaption>
+      <TableHeader>
+        <TableRow>
+          <TableHead scope="col">Country</TableHead>
+          <TableHead scope="col">Code</TableHead>
+          <TableHead scope="col" className="text-right">{centralityMetricLabels[metric]}</TableHead>
+          <TableHead scope="col">Land mass</TableHead>
+          <TableHead scope="col">Neighbors</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => {
+          const selected = row.id === selectedCountry;
+          return (
+            <TableRow
+              key={row.id}
+              ref={selected ? selectedRowRef : undefined}
+              data-state={selected ? "selected" : undefined}
+            >
+              <TableHead scope="row" className="font-medium">
+                <button
+                  type="button"
+                  className="text-left hover:underline focus-visible:underline focus-visible:outline-none"
+                  onClick={() => onSelect(row.id)}
+                  aria-current={selected ? "true" : undefined}
+                >
+                  {row.name}
+                </button>
+              </TableHead>
+              <TableCell>{row.id}</TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatScore(metric, scores[metric].get(row.id) ?? 0)}
+              </TableCell>
+              <TableCell>
+                {row.landMass && row.landMass.countryIds.length > 1 ? nameOf(row.landMass.hub) : "None"}
+              </TableCell>
+              <TableCell className="text-muted-foreground">
+                {row.neighbors.length > 0 ? row.neighbors.join(", ") : "None"}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default CountryTable;
@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { Scissors, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Border, CountryId } from '@/data/countries';
+import { byName, useCountryName } from '@/hooks/use-country-name';
+import { buildAdjacency } from '@/lib/graph';
+import { isLandMassBorder } from '@/lib/connectivity';
+import { componentsWithout, findCuts } from '@/lib/articulation';
+
+interface CutPanelProps {
+  borders: Border[];
+  showCuts: boolean;
+  onShowCutsChange: (show: boolean) => void;
+  removedCountry: CountryId | null;
+  onRemovedCountryChange: (id: CountryId | null) => void;
+}
+
+// Components listed for the "what if removed" result
+const MAX_LISTED_COMPONENTS = 5;
+
+const CutPanel: React.FC<CutPanelProps> = ({
+  borders,
+  showCuts,
+  onShowCutsChange,
+  removedCountry,
+  onRemovedCountryChange,
+}) => {
+  const nameOf = useCountryName();
+  const landAdjacency = useMemo(() => {
+    const countryIds = borders.flatMap(border => [border.source, border.target]);
+    return buildAdjacency(borders.filter(isLandMassBorder), countryIds);
+  }, [borders]);
+
+  const cuts = useMemo(() => findCuts(landAdjacency), [landAdjacency]);
+
+  const otherCountries = useMemo(() => {
+    const cutIds = new Set(cuts.articulationPoints);
+    return Array.from(landAdjacency.keys()).filter(id => !cutIds.has(id)).sort(byName(nameOf));
+  }, [landAdjacency, cuts, nameOf]);
+
+  const remaining = useMemo(
+    () => removedCountry ? componentsWithout(landAdjacency, removedCountry).components : null,
+    [landAdjacency, removedCountry]
+  );
+
+  return (
+    <Card className="w-64 bg-white/95 dark:bg-slate-800/95">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Scissors className="h-4 w-4" /> Choke points
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="show-cuts" className="text-xs">Highlight cut countries & bridges</Label>
+          <Switch id="show-cuts" checked={showCuts} onCheckedChange={onShowCutsChange} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {cuts.articulationPoints.length} countries and {cuts.bridges.length} borders
+          each hold a land mass together
+        </p>
+
+        <div className="flex gap-2">
+          <Select value={removedCountry ?? ""} onValueChange={onRemovedCountryChange}>
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder="What if removed..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Cut countries</SelectLabel>
+                {[...cuts.articulationPoints].sort(byName(nameOf)).map(id => (
+                  <SelectItem key={id} value={id}>{nameOf(id)}</SelectItem>
+                ))}
+              </SelectGroup>
+              <SelectGroup>
+                <SelectLabel>Other countries</SelectLabel>
+                {otherCountries.map(id => (
+                  <SelectItem key={id} value={id}>{nameOf(id)}</SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+          {removedCountry && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8"
+              onClick={() => onRemovedCountryChange(null)}
+              aria-label="Restore country"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {remaining && (
+          <div className="text-xs">
+            <p className="font-medium">
+              Without {nameOf(removedCountry)}: {remaining.length} land masses
+            </p>
+            <ul className="text-muted-foreground">
+              {remaining.slice(0, MAX_LISTED_COMPONENTS).map(component => (
+                <li key={component.index}>
+                  {nameOf(component.hub)}
+                  {component.countryIds.length > 1 ? ` and ${component.countryIds.length - 1} others` : ""}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CutPanel;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { PageSize, pageSizes } from '@/lib/export';
+import { GraphFormat, graphFormats } from '@/lib/formats';
+
+interface ExportMenuProps {
+  onExportSvg: () => void;
+  onExportPng: (dpi: number) => void;
+  onPrint: (pageSize: PageSize) => void;
+  onExportData: (format: GraphFormat) => void;
+}
+
+const PNG_RESOLUTIONS = [
+  { dpi: 96, label: "Screen, 96 DPI" },
+  { dpi: 150, label: "Document, 150 DPI" },
+  { dpi: 300, label: "Print, 300 DPI" },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExportSvg, onExportPng, onPrint, onExportData }) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Export" title="Export">
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Current view</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={onExportSvg}>SVG image</DropdownMenuItem>
+        {PNG_RESOLUTIONS.map(({ dpi, label }) => (
+          <DropdownMenuItem key={dpi} onSelect={() => onExportPng(dpi)}>PNG · {label}</DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Whole graph</DropdownMenuLabel>
+        {Object.entries(pageSizes).map(([size, { label }]) => (
+          <DropdownMenuItem key={size} onSelect={() => onPrint(size as PageSize)}>Print on {label}</DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Data with metrics and positions</DropdownMenuLabel>
+        {Object.entries(graphFormats).map(([format, { label }]) => (
+          <DropdownMenuItem key={format} onSelect={() => onExportData(format as GraphFormat)}>{label}</DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
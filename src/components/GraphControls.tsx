@@ -1,9 +1,87 @@
-
 import React from 'react';
+import { RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ForceSettings, defaultForceSettings } from '@/lib/forceSimulation';
+
+interface GraphControlsProps {
+  forces: ForceSettings;
+  onForcesChange: (forces: ForceSettings) => void;
+}
+
+type ForceToggle = "collisionEnabled" | "gravityEnabled";
+
+interface ForceSlider {
+  key: Exclude<keyof ForceSettings, ForceToggle>;
+  // Switch that turns the force on and off; the slider keeps its value while it is off
+  toggle?: ForceToggle;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const SLIDERS: ForceSlider[] = [
+  { key: "charge", label: "Repulsion", min: 0, max: 400, step: 10, format: value => String(value) },
+  { key: "linkDistance", label: "Border length", min: 20, max: 200, step: 5, format: value => `${value}px` },
+  { key: "collisionRadius", toggle: "collisionEnabled", label: "Collision radius", min: 0, max: 80, step: 2, format: value => `${value}px` },
+  { key: "alphaDecay", label: "Cooling rate", min: 0.001, max: 0.1, step: 0.001, format: value => value.toFixed(3) },
+  { key: "gravity", toggle: "gravityEnabled", label: "Gravity", min: 0.01, max: 0.3, step: 0.01, format: value => value.toFixed(2) },
+];
 
-// Empty component since we're removing all controls
-const GraphControls: React.FC = () => {
-  return null;
+const GraphControls: React.FC<GraphControlsProps> = ({ forces, onForcesChange }) => {
+  return (
+    <Card className="w-64 bg-white/95 dark:bg-slate-800/95">
+      <CardHeader className="p-4 pb-2 flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base flex items-center gap-2">
+          <SlidersHorizontal className="h-4 w-4" /> Forces
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2"
+          onClick={() => onForcesChange(defaultForceSettings)}
+          aria-label="Reset forces"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-3">
+        {SLIDERS.map(({ key, toggle, label, min, max, step, format }) => (
+          <div key={key} className="space-y-1">
+            <div className="flex items-center gap-2 text-xs">
+              {toggle ? (
+                <>
+                  <Switch
+                    id={`force-${toggle}`}
+                    checked={forces[toggle]}
+                    onCheckedChange={checked => onForcesChange({ ...forces, [toggle]: checked })}
+                  />
+                  <Label htmlFor={`force-${toggle}`} className="text-xs font-normal">{label}</Label>
+                </>
+              ) : (
+                <span>{label}</span>
+              )}
+              <span className="ml-auto tabular-nums text-muted-foreground">{format(forces[key])}</span>
+            </div>
+            <Slider
+              min={min}
+              max={max}
+              step={step}
+              value={[forces[key]]}
+              disabled={toggle !== undefined && !forces[toggle]}
+              aria-label={label}
+              onValueChange={([value]) => onForcesChange({ ...forces, [key]: value })}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
 };
 
 export default GraphControls;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Info } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CentralityMetric, centralityMetricLabels } from '@/lib/centrality';
+import { GraphPalette, graphPaletteLabels } from '@/lib/colors';
+import { usePalette } from '@/hooks/use-palette';
+
+// What currently decides node fills, in the order CountryGraph applies them
+export type LegendColorMode = "metric" | "communities" | "coloring" | "removal";
+
+export interface GraphLegendProps {
+  metric: CentralityMetric;
+  colorMode: LegendColorMode;
+  showCuts: boolean;
+}
+
+const colorModeNotes: Record<Exclude<LegendColorMode, "metric">, string> = {
+  communities: "Color shows the detected community",
+  coloring: "Color shows the map coloring; neighbors never share one",
+  removal: "Color shows the land masses left after the removal",
+};
+
+// Smallest and largest node radius, matching CountryGraph's metric scale
+const RADII = [4, 9];
+
+const swatch = (variable: string) => (
+  <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: `var(${variable})` }} />
+);
+
+// Color, size and highlight explanations; also used on the printed page
+export const LegendEntries: React.FC<GraphLegendProps> = ({ metric, colorMode, showCuts }) => {
+  const metricLabel = centralityMetricLabels[metric].toLowerCase();
+
+  return (
+    <div className="space-y-2 text-xs">
+      {colorMode === "metric" ? (
+        <div className="space-y-1">
+          <p>Color: {metricLabel}</p>
+          <div
+            className="h-2.5 rounded-sm"
+            style={{ background: "linear-gradient(to right, var(--graph-node-low), var(--graph-node-mid), var(--graph-node-high))" }}
+          />
+          <div className="flex justify-between text-muted-foreground">
+            <span>Low</span>
+            <span>High</span>
+          </div>
+        </div>
+      ) : (
+        <p>{colorModeNotes[colorMode]}</p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <span className="flex-1">Size: {metricLabel}</span>
+        <svg width={RADII[1] * 2 + RADII[0] * 2 + 6} height={RADII[1] * 2} aria-hidden="true">
+          {RADII.map((radius, index) => (
+            <circle
+              key={radius}
+              cx={index === 0 ? radius : RADII[0] * 2 + 6 + radius}
+              cy={RADII[1]}
+              r={radius}
+              fill="var(--graph-node-mid)"
+            />
+          ))}
+        </svg>
+      </div>
+
+      <ul className="space-y-1">
+        <li className="flex items-center gap-2">{swatch("--graph-active")} Hovered country and highlighted paths</li>
+        {showCuts && (
+          <li className="flex items-center gap-2">{swatch("--graph-cut")} Cut countries and bridge borders</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+const GraphLegend: React.FC<GraphLegendProps> = props => {
+  const { palette, setPalette } = usePalette();
+
+  return (
+    <Card className="w-60 bg-white/95 dark:bg-slate-800/95">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Info className="h-4 w-4" /> Legend
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        <LegendEntries {...props} />
+        <Select value={palette} onValueChange={value => setPalette(value as GraphPalette)}>
+          <SelectTrigger className="h-8" aria-label="Palette">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(graphPaletteLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GraphLegend;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Crosshair, Maximize, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface GraphToolbarProps {
+  // Current zoom factor, 1 is the initial view
+  scale: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFitAll: () => void;
+  // Undefined while nothing is selected
+  onFitSelection?: () => void;
+  onReset: () => void;
+}
+
+const GraphToolbar: React.FC<GraphToolbarProps> = ({
+  scale,
+  onZoomIn,
+  onZoomOut,
+  onFitAll,
+  onFitSelection,
+  onReset,
+}) => {
+  const tool = (label: string, icon: React.ReactNode, onClick?: () => void) => (
+    <Button
+      size="sm"
+      variant="ghost"
+      className="h-8 w-8 p-0"
+      onClick={onClick}
+      disabled={!onClick}
+      aria-label={label}
+      title={label}
+    >
+      {icon}
+    </Button>
+  );
+
+  return (
+    <div className="flex items-center gap-1 rounded-md border bg-white/95 dark:bg-slate-800/95 p-1 shadow-sm">
+      {tool("Zoom out", <ZoomOut className="h-4 w-4" />, onZoomOut)}
+      <span className="w-12 text-center text-xs tabular-nums text-muted-foreground" aria-live="polite">
+        {Math.round(scale * 100)}%
+      </span>
+      {tool("Zoom in", <ZoomIn className="h-4 w-4" />, onZoomIn)}
+      {tool("Fit all countries", <Maximize className="h-4 w-4" />, onFitAll)}
+      {tool("Fit selection", <Crosshair className="h-4 w-4" />, onFitSelection)}
+      {tool("Reset view", <RotateCcw className="h-4 w-4" />, onReset)}
+    </div>
+  );
+};
+
+export default GraphToolbar;
@@ -1,24 +1,399 @@
 
-import React, { useRef } from 'react';
-import CountryGraph from './CountryGraph';
-import { toast } from 'sonner';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileUp, Moon, Search, Sun, Table2 } from 'lucide-react';
+import CountryGraph, { CountryGraphHandle, LayoutMode, MapProjection } from './CountryGraph';
+import ValidationBanner from './ValidationBanner';
+import PathFinderPanel from './PathFinderPanel';
+import LayoutPanel from './LayoutPanel';
+import GraphControls from './GraphControls';
+import ComponentLegend from './ComponentLegend';
+import MetricPanel from './MetricPanel';
+import CutPanel from './CutPanel';
+import CommunityPanel from './CommunityPanel';
+import MapColoringPanel from './MapColoringPanel';
+import CommandPalette from './CommandPalette';
+import CountryDetailsSheet from './CountryDetailsSheet';
+import GraphToolbar from './GraphToolbar';
+import GraphLegend from './GraphLegend';
+import CountryTable from './CountryTable';
+import ExportMenu from './ExportMenu';
+import PrintLayout from './PrintLayout';
+import ImportDialog from './ImportDialog';
+import TimelinePanel from './TimelinePanel';
+import { LegendColorMode } from './GraphLegend';
+import { useTheme } from './ThemeProvider';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DatasetId, datasetCountryIds, datasets } from '../data/datasets';
+import { CountryId } from '../data/countries';
+import { CountryNameContext } from '@/hooks/use-country-name';
+import { useGraphExport } from '@/hooks/use-graph-export';
+import { useGraphImport } from '@/hooks/use-graph-import';
+import { useNetwork } from '@/hooks/use-network';
+import { useInitialViewState, useViewStateSync } from '@/hooks/use-view-state-sync';
+import { bordersAt, currentYear, dateOfYear } from '@/lib/timeline';
+import { findLandMasses } from '@/lib/connectivity';
+import { CentralityMetric, computeCentrality } from '@/lib/centrality';
+import { detectCommunities } from '@/lib/communities';
+import { ColoringStrategy, colorMap, coloringAfterSteps } from '@/lib/coloring';
+import { RendererKind } from '@/lib/renderers';
+import { ForceSettings, defaultForceSettings } from '@/lib/forceSimulation';
+import { GraphImport } from '@/lib/formats';
+import { ViewTransform } from '@/lib/viewState';
+
+// Factor each zoom button press scales the view by
+const ZOOM_STEP = 1.5;
+
+const TITLE = "Interactive Country Borders Graph";
 
 const GraphWrapper: React.FC = () => {
-  const graphRef = useRef<{ resetView: () => void }>(null);
+  const graphRef = useRef<CountryGraphHandle>(null);
+  const { setTheme } = useTheme();
+  const { route: initialRoute, view: initialView } = useInitialViewState();
+
+  const { datasetId, setDatasetId, network, setNetwork, borders, nameOf, validationReport } = useNetwork(initialView.dataset);
+  // The graph fades between years itself; everything else works on the borders that exist in the chosen year.
+  // Imported networks carry no dates and are always shown whole.
+  const [year, setYear] = useState(initialView.year ?? currentYear());
+  const date = useMemo(() => (network ? null : dateOfYear(year)), [network, year]);
+  const activeBorders = useMemo(() => (date ? bordersAt(borders, date) : borders), [borders, date]);
+  const landMasses = useMemo(() => findLandMasses(activeBorders), [activeBorders]);
+  const centrality = useMemo(() => computeCentrality(activeBorders), [activeBorders]);
+
+  const [paths, setPaths] = useState<CountryId[][]>([]);
+  const [pathQuery, setPathQuery] = useState<{ from: CountryId; to: CountryId } | null>(() =>
+    initialRoute.kind === "path" ? { from: initialRoute.from, to: initialRoute.to } :
+    initialRoute.kind === "compare" ? { from: initialRoute.a, to: initialRoute.b } :
+    null
+  );
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [showTable, setShowTable] = useState(false);
+  const { dialog: importDialog, openImport, draggingFile, dropTarget } = useGraphImport();
+  const [selectedCountry, setSelectedCountry] = useState<CountryId | null>(() =>
+    initialRoute.kind === "country" ? initialRoute.id : initialRoute.kind === "compare" ? initialRoute.a : null
+  );
+  const [compareCountry, setCompareCountry] = useState<CountryId | null>(() =>
+    initialRoute.kind === "compare" ? initialRoute.b : null
+  );
+  const [transform, setTransform] = useState<ViewTransform | null>(initialView.transform);
+  const [layout, setLayout] = useState<LayoutMode>(initialView.layout);
+  const [projection, setProjection] = useState<MapProjection>(initialView.projection);
+  const [geoAnchor, setGeoAnchor] = useState(false);
+  const [renderer, setRenderer] = useState<RendererKind>("svg");
+  const [forces, setForces] = useState<ForceSettings>(defaultForceSettings);
+  const [metric, setMetric] = useState<CentralityMetric>(initialView.metric);
+  const [showCuts, setShowCuts] = useState(initialView.showCuts);
+  const [removedCountry, setRemovedCountry] = useState<CountryId | null>(initialView.removedCountry);
+  const [showCommunities, setShowCommunities] = useState(initialView.communities !== null);
+  const [resolution, setResolution] = useState(initialView.communities ?? 1);
+  const communityResult = useMemo(() => detectCommunities(activeBorders, { resolution }), [activeBorders, resolution]);
+  const [showColoring, setShowColoring] = useState(initialView.coloring !== null);
+  const [coloringStrategy, setColoringStrategy] = useState<ColoringStrategy>(initialView.coloring ?? "dsatur");
+  // The solver only runs while the coloring is shown
+  const coloringResult = useMemo(
+    () => (showColoring ? colorMap(activeBorders, { strategy: coloringStrategy }) : null),
+    [showColoring, activeBorders, coloringStrategy]
+  );
+  const [coloringStep, setColoringStep] = useState(0);
+  const coloring = useMemo(
+    () => (coloringResult ? coloringAfterSteps(coloringResult.steps, coloringStep) : null),
+    [coloringResult, coloringStep]
+  );
+
+  // A new solver run starts out fully applied; the panel replays it from the first step
+  useEffect(() => setColoringStep(coloringResult?.steps.length ?? 0), [coloringResult]);
+
+  const countryIds = useMemo(
+    () => Array.from(new Set(activeBorders.flatMap(border => [border.source, border.target]))),
+    [activeBorders]
+  );
+
+  // A linked country is zoomed to once the layout has had time to settle, unless the link carries its own view
+  useEffect(() => {
+    if (initialRoute.kind !== "country" || initialView.transform) return;
+    const timer = window.setTimeout(() => graphRef.current?.focusCountry(initialRoute.id), 1500);
+    return () => window.clearTimeout(timer);
+  }, [initialRoute, initialView]);
+
+  useViewStateSync(
+    selectedCountry && compareCountry ? { kind: "compare", a: selectedCountry, b: compareCountry } :
+    paths.length > 0 ? { kind: "path", from: paths[0][0], to: paths[0][paths[0].length - 1] } :
+    selectedCountry ? { kind: "country", id: selectedCountry } :
+    { kind: "home" },
+    {
+      dataset: datasetId,
+      transform,
+      layout,
+      projection,
+      metric,
+      showCuts,
+      removedCountry,
+      communities: showCommunities ? resolution : null,
+      coloring: showColoring ? coloringStrategy : null,
+      year: year === currentYear() ? null : year,
+    }
+  );
+
+  // Countries "fit selection" frames: the compared pair, or the highlighted paths and the selected country
+  const selection = useMemo(() => {
+    if (selectedCountry && compareCountry) return [selectedCountry, compareCountry];
+    const ids = new Set(paths.flat());
+    if (selectedCountry) ids.add(selectedCountry);
+    return Array.from(ids);
+  }, [selectedCountry, compareCountry, paths]);
+
+  const legendColorMode: LegendColorMode =
+    removedCountry ? "removal" : showColoring ? "coloring" : showCommunities ? "communities" : "metric";
+
+  const { exportSvg, exportPng, exportData, print, printJob } = useGraphExport(graphRef, {
+    fileStem: network?.name ?? "country-borders",
+    borders: activeBorders,
+    document: {
+      scores: centrality,
+      nodeValues: {
+        landMass: landMasses.componentOf,
+        community: communityResult.communityOf,
+        ...(coloringResult && { mapColor: coloringResult.colorOf }),
+      },
+      names: network?.names,
+    },
+  });
+
+  // Picking a country on the graph ends a comparison; null clears the selection
+  const selectCountry = (id: CountryId | null) => {
+    setSelectedCountry(id);
+    setCompareCountry(null);
+  };
+
+  const compareWith = (id: CountryId | null) => {
+    setCompareCountry(id);
+    if (id && selectedCountry) setPathQuery({ from: selectedCountry, to: id });
+  };
+
+  // Countries picked in the old dataset stay picked if the new one has them, former borders included.
+  // Dropping the selection ends a comparison too. The path finder searches again.
+  const showDataset = (id: DatasetId) => {
+    setNetwork(null);
+    const ids = datasetCountryIds(id);
+    setDatasetId(id);
+    setPathQuery(null);
+    if (selectedCountry && !ids.has(selectedCountry)) selectCountry(null);
+    if (compareCountry && !ids.has(compareCountry)) setCompareCountry(null);
+    if (removedCountry && !ids.has(removedCountry)) setRemovedCountry(null);
+  };
+
+  // Swap the network on screen; null goes back to the chosen dataset. Anything picked in the old one is dropped.
+  const loadNetwork = (name: string | null, result: GraphImport | null) => {
+    setNetwork(name && result ? { name, borders: result.borders, names: result.names } : null);
+    setPaths([]);
+    setPathQuery(null);
+    selectCountry(null);
+    setRemovedCountry(null);
+  };
+
+  // "system" resolves to whatever is showing, so toggling always flips the visible theme
+  const toggleTheme = () =>
+    setTheme(document.documentElement.classList.contains("dark") ? "light" : "dark");
 
   return (
-    <div className="flex flex-col h-screen w-screen overflow-hidden bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
-      <div className="p-4 bg-white dark:bg-slate-800 shadow-sm">
-        <h1 className="text-2xl font-bold text-center dark:text-white">Interactive Country Borders Graph</h1>
-        <p className="text-center text-gray-500 dark:text-gray-400 text-sm">
-          Explore countries and their shared borders - Drag to move, scroll to zoom
-        </p>
-      </div>
+    <CountryNameContext.Provider value={nameOf}>
+      <div className="flex flex-col h-screen w-screen overflow-hidden bg-slate-50 dark:bg-slate-900 transition-colors duration-200 print:hidden">
+        <div className="relative p-4 bg-white dark:bg-slate-800 shadow-sm">
+          <div className="absolute left-4 top-1/2 -translate-y-1/2">
+            <Select
+              value={network ? "imported" : datasetId}
+              onValueChange={value => {
+                if (value !== "imported") showDataset(value as DatasetId);
+              }}
+            >
+              <SelectTrigger className="h-8 w-48" aria-label="Dataset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(datasets).map(([id, dataset]) => (
+                  <SelectItem key={id} value={id} title={dataset.description}>{dataset.label}</SelectItem>
+                ))}
+                {network && <SelectItem value="imported">{network.name}</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
+            <Button variant="outline" size="sm" className="gap-2 text-muted-foreground" onClick={() => setPaletteOpen(true)}>
+              <Search className="h-4 w-4" /> Search
+              <kbd className="rounded border bg-muted px-1.5 font-mono text-[10px]">⌘K</kbd>
+            </Button>
+            <Button
+              variant={showTable ? "secondary" : "ghost"}
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => setShowTable(!showTable)}
+              aria-pressed={showTable}
+              aria-label="Table view"
+              title="Table view"
+            >
+              <Table2 className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openImport(null)} aria-label="Import network" title="Import network">
+              <FileUp className="h-4 w-4" />
+            </Button>
+            <ExportMenu onExportSvg={exportSvg} onExportPng={exportPng} onPrint={print} onExportData={exportData} />
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={toggleTheme} aria-label="Toggle theme" title="Toggle theme">
+              <Sun className="h-4 w-4 dark:hidden" />
+              <Moon className="hidden h-4 w-4 dark:block" />
+            </Button>
+          </div>
+          <h1 className="text-2xl font-bold text-center dark:text-white">{TITLE}</h1>
+          <p className="text-center text-gray-500 dark:text-gray-400 text-sm">
+            {network ? `Showing ${network.name}` : "Explore countries and their shared borders"} - Drag to move, scroll to zoom
+          </p>
+        </div>
+
+        {validationReport && <ValidationBanner report={validationReport} />}
       
-      <div className="flex-1 overflow-hidden">
-        <CountryGraph ref={graphRef} />
+        <div className="relative flex-1 overflow-hidden" {...dropTarget}>
+          <CountryGraph
+            ref={graphRef}
+            borders={borders}
+            date={date}
+            renderer={renderer}
+            forces={forces}
+            paths={paths}
+            layout={layout}
+            projection={projection}
+            geoAnchor={geoAnchor}
+            metric={metric}
+            showCuts={showCuts}
+            removedCountry={removedCountry}
+            communities={showCommunities ? communityResult.communityOf : null}
+            coloring={coloring}
+            onCountrySelect={selectCountry}
+            initialTransform={initialView.transform}
+            onTransformChange={setTransform}
+          />
+
+          {draggingFile && (
+            <div className="pointer-events-none absolute inset-2 z-20 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/80 text-sm font-medium">
+              Drop a CSV, JSON, GraphML or GEXF file to import it
+            </div>
+          )}
+
+          {showTable && (
+            <div className="absolute inset-0 z-10 overflow-auto bg-background p-4">
+              <CountryTable
+                borders={activeBorders}
+                scores={centrality}
+                metric={metric}
+                landMasses={landMasses}
+                selectedCountry={selectedCountry}
+                onSelect={id => graphRef.current?.focusCountry(id)}
+              />
+            </div>
+          )}
+
+          {!network && (
+            <div className="absolute bottom-16 left-1/2 -translate-x-1/2">
+              <TimelinePanel borders={borders} year={year} onYearChange={setYear} />
+            </div>
+          )}
+
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2">
+            <GraphToolbar
+              scale={transform?.k ?? 1}
+              onZoomIn={() => graphRef.current?.zoomBy(ZOOM_STEP)}
+              onZoomOut={() => graphRef.current?.zoomBy(1 / ZOOM_STEP)}
+              onFitAll={() => graphRef.current?.fitBounds()}
+              onFitSelection={selection.length > 0 ? () => graphRef.current?.fitBounds(selection) : undefined}
+              onReset={() => graphRef.current?.resetView()}
+            />
+          </div>
+
+          {/* Panel columns let drag and zoom through everywhere except the cards themselves */}
+          <div className="absolute top-4 bottom-4 left-4 flex flex-col gap-4 overflow-y-auto pointer-events-none [&>*]:pointer-events-auto">
+            <PathFinderPanel borders={activeBorders} onPathsChange={setPaths} query={pathQuery} />
+            <LayoutPanel
+              layout={layout}
+              onLayoutChange={setLayout}
+              projection={projection}
+              onProjectionChange={setProjection}
+              geoAnchor={geoAnchor}
+              onGeoAnchorChange={setGeoAnchor}
+              renderer={renderer}
+              onRendererChange={setRenderer}
+            />
+            <GraphControls forces={forces} onForcesChange={setForces} />
+            <ComponentLegend components={landMasses.components} />
+          </div>
+
+          <div className="absolute top-4 bottom-4 right-4 flex flex-col gap-4 overflow-y-auto pointer-events-none [&>*]:pointer-events-auto">
+            <MetricPanel scores={centrality} metric={metric} onMetricChange={setMetric} />
+            <GraphLegend metric={metric} colorMode={legendColorMode} showCuts={showCuts} />
+            <CommunityPanel
+              enabled={showCommunities}
+              onEnabledChange={setShowCommunities}
+              resolution={resolution}
+              onResolutionChange={setResolution}
+              result={communityResult}
+            />
+            <CutPanel
+              borders={activeBorders}
+              showCuts={showCuts}
+              onShowCutsChange={setShowCuts}
+              removedCountry={removedCountry}
+              onRemovedCountryChange={setRemovedCountry}
+            />
+            <MapColoringPanel
+              enabled={showColoring}
+              onEnabledChange={setShowColoring}
+              strategy={coloringStrategy}
+              onStrategyChange={setColoringStrategy}
+              result={coloringResult}
+              step={coloringStep}
+              onStepChange={setColoringStep}
+            />
+          </div>
+        </div>
+
+        <CommandPalette
+          open={paletteOpen}
+          onOpenChange={setPaletteOpen}
+          countryIds={countryIds}
+          onSelectCountry={id => graphRef.current?.focusCountry(id)}
+          onFindPath={(from, to) => setPathQuery({ from, to })}
+          onResetView={() => graphRef.current?.resetView()}
+          onToggleTheme={toggleTheme}
+        />
+
+        <ImportDialog
+          {...importDialog}
+          networkName={network?.name ?? null}
+          onLoad={loadNetwork}
+          onRestore={() => loadNetwork(null, null)}
+        />
+
+        <CountryDetailsSheet
+          countryId={selectedCountry}
+          onClose={() => {
+            setSelectedCountry(null);
+            setCompareCountry(null);
+          }}
+          onNavigate={id => graphRef.current?.focusCountry(id)}
+          compareId={compareCountry}
+          onCompareChange={compareWith}
+          borders={activeBorders}
+          scores={centrality}
+          landMasses={landMasses}
+        />
       </div>
-    </div>
+
+      {printJob && (
+        <PrintLayout
+          svg={printJob.svg}
+          pageSize={printJob.pageSize}
+          title={TITLE}
+          legend={{ metric, colorMode: legendColorMode, showCuts }}
+        />
+      )}
+    </CountryNameContext.Provider>
   );
 };
 
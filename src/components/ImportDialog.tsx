@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { GraphImport, importExtensions, importFormats, importGraph } from '@/lib/formats';
+import { toast } from 'sonner';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // File dropped on the graph or chosen here; a new file is read and checked right away
+  file: File | null;
+  onFileChange: (file: File) => void;
+  // Name of the imported network on screen, null while the country borders are shown
+  networkName: string | null;
+  onLoad: (name: string, result: GraphImport) => void;
+  onRestore: () => void;
+}
+
+// First file of a drag, if the drag carries files at all
+const droppedFile = (event: React.DragEvent) => event.dataTransfer.files[0] ?? null;
+
+// Network name from the file name, e.g. "us-states" for "us-states.csv"
+const networkNameOf = (fileName: string) => fileName.replace(/\.[^.]+$/, "") || fileName;
+
+const ImportDialog: React.FC<ImportDialogProps> = ({
+  open,
+  onOpenChange,
+  file,
+  onFileChange,
+  networkName,
+  onLoad,
+  onRestore,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<{ fileName: string; result: GraphImport } | null>(null);
+
+  useEffect(() => {
+    setPreview(null);
+    if (!file) return;
+    let cancelled = false;
+    file.text()
+      .then(text => {
+        if (!cancelled) setPreview({ fileName: file.name, result: importGraph(file.name, text) });
+      })
+      .catch(error => toast.error(`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`));
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const result = preview?.result;
+  const nodeCount = result ? new Set(result.borders.flatMap(border => [border.source, border.target])).size : 0;
+  const loadable = result && result.borders.length > 0;
+
+  const load = () => {
+    if (!loadable) return;
+    onLoad(networkNameOf(preview.fileName), result);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import a network</DialogTitle>
+          <DialogDescription>
+            Load your own nodes and edges from a CSV edge list, node-link JSON, GraphML or GEXF file.
+            You can also drop a file on the graph.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          className="flex flex-col items-center gap-2 rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground"
+          onDragOver={event => event.preventDefault()}
+          onDrop={event => {
+            event.preventDefault();
+            const dropped = droppedFile(event);
+            if (dropped) onFileChange(dropped);
+          }}
+        >
+          <FileUp className="h-6 w-6" />
+          <p>{file ? file.name : "Drop a file here"}</p>
+          <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+            Choose file
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={importExtensions.join(",")}
+            className="hidden"
+            onChange={event => {
+              const chosen = event.target.files?.[0];
+              if (chosen) onFileChange(chosen);
+              // Choosing the same file again should read it again
+              event.target.value = "";
+            }}
+          />
+        </div>
+
+        {result && (
+          <div className="space-y-2 text-sm">
+            {loadable && (
+              <p>
+                {importFormats[result.format].label}: {result.borders.length} edges between {nodeCount} nodes
+              </p>
+            )}
+            {result.issues.length > 0 && (
+              <Alert variant={loadable ? "default" : "destructive"}>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>
+                  {loadable
+                    ? `${result.issues.length} ${result.issues.length === 1 ? "problem" : "problems"}; the affected rows are left out`
+                    : "Nothing could be imported"}
+                </AlertTitle>
+                <AlertDescription>
+                  <ul className="max-h-48 space-y-0.5 overflow-y-auto pr-3">
+                    {result.issues.map((issue, index) => (
+                      <li key={index}>
+                        {issue.location && <span className="font-medium">{issue.location}: </span>}
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {networkName && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                onRestore();
+                onOpenChange(false);
+              }}
+            >
+              Back to country borders
+            </Button>
+          )}
+          <Button onClick={load} disabled={!loadable}>
+            Load network
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
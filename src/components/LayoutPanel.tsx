@@ -0,0 +1,97 @@
+import React from 'react';
+import { Map as MapIcon } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { RendererKind, rendererLabels } from '@/lib/renderers';
+import { LayoutMode, MapProjection } from './CountryGraph';
+
+interface LayoutPanelProps {
+  layout: LayoutMode;
+  onLayoutChange: (layout: LayoutMode) => void;
+  projection: MapProjection;
+  onProjectionChange: (projection: MapProjection) => void;
+  geoAnchor: boolean;
+  onGeoAnchorChange: (geoAnchor: boolean) => void;
+  renderer: RendererKind;
+  onRendererChange: (renderer: RendererKind) => void;
+}
+
+const layoutLabels: Record<LayoutMode, string> = {
+  force: "Force",
+  components: "Land mass clusters",
+  geographic: "Geographic",
+};
+
+const projectionLabels: Record<MapProjection, string> = {
+  equalEarth: "Equal Earth",
+  mercator: "Mercator",
+};
+
+const LayoutPanel: React.FC<LayoutPanelProps> = ({
+  layout,
+  onLayoutChange,
+  projection,
+  onProjectionChange,
+  geoAnchor,
+  onGeoAnchorChange,
+  renderer,
+  onRendererChange,
+}) => {
+  return (
+    <Card className="w-64 bg-white/95 dark:bg-slate-800/95">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <MapIcon className="h-4 w-4" /> Layout
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        <Select value={layout} onValueChange={value => onLayoutChange(value as LayoutMode)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(layoutLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={projection} onValueChange={value => onProjectionChange(value as MapProjection)}>
+          <SelectTrigger className="h-8" aria-label="Map projection">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(projectionLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label} projection</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="geo-anchor" className="text-xs">Pull toward map position</Label>
+          <Switch
+            id="geo-anchor"
+            checked={geoAnchor}
+            disabled={layout !== "force"}
+            onCheckedChange={onGeoAnchorChange}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-xs">Drawing</Label>
+          <Select value={renderer} onValueChange={value => onRendererChange(value as RendererKind)}>
+            <SelectTrigger className="h-8 w-32" aria-label="Renderer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(rendererLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LayoutPanel;
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { Palette, Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { useCountryName } from '@/hooks/use-country-name';
+import { ColoringResult, ColoringStrategy, coloringStrategyLabels } from '@/lib/coloring';
+import { categoryVar } from '@/lib/colors';
+
+interface MapColoringPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  strategy: ColoringStrategy;
+  onStrategyChange: (strategy: ColoringStrategy) => void;
+  // Solver run for the current network, null while the coloring is switched off
+  result: ColoringResult | null;
+  // Number of solver steps currently applied to the graph
+  step: number;
+  onStepChange: (step: number) => void;
+}
+
+const STEP_INTERVAL_MS = 60;
+// Long backtracking traces skip ahead so a replay never takes much longer than this many ticks
+const MAX_TICKS = 300;
+
+const MapColoringPanel: React.FC<MapColoringPanelProps> = ({
+  enabled,
+  onEnabledChange,
+  strategy,
+  onStrategyChange,
+  result,
+  step,
+  onStepChange,
+}) => {
+  const nameOf = useCountryName();
+  const [playing, setPlaying] = useState(false);
+  const total = result?.steps.length ?? 0;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= total) {
+      setPlaying(false);
+      return;
+    }
+    const stride = Math.max(1, Math.ceil(total / MAX_TICKS));
+    const timer = window.setTimeout(() => onStepChange(Math.min(total, step + stride)), STEP_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, step, total, onStepChange]);
+
+  const play = () => {
+    if (!enabled) onEnabledChange(true);
+    if (step >= total) onStepChange(0);
+    setPlaying(true);
+  };
+
+  const current = result && step > 0 ? result.steps[step - 1] : null;
+  const fewestColors = Math.max(0, ...(result?.components ?? []).map(component => component.chromaticNumber));
+  const allProven = result?.components.every(component => component.proven);
+
+  return (
+    <Card className="w-64 bg-white/95 dark:bg-slate-800/95">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Palette className="h-4 w-4" /> Map coloring
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="show-coloring" className="text-xs">Color neighbors apart</Label>
+          <Switch
+            id="show-coloring"
+            checked={enabled}
+            onCheckedChange={checked => {
+              setPlaying(false);
+              onEnabledChange(checked);
+            }}
+          />
+        </div>
+
+        <Select
+          value={strategy}
+          onValueChange={value => {
+            setPlaying(false);
+            onStrategyChange(value as ColoringStrategy);
+          }}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(coloringStrategyLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {enabled && result && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-1">
+              <Button size="sm" variant="outline" className="h-8" aria-label="First step" onClick={() => onStepChange(0)}>
+                <SkipBack className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8"
+                aria-label={playing ? "Pause solver" : "Play solver"}
+                onClick={() => playing ? setPlaying(false) : play()}
+              >
+                {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button size="sm" variant="outline" className="h-8" aria-label="Last step" onClick={() => onStepChange(total)}>
+                <SkipForward className="h-4 w-4" />
+              </Button>
+              <span className="ml-auto text-xs tabular-nums text-muted-foreground">{step} / {total}</span>
+            </div>
+            <Slider
+              min={0}
+              max={total}
+              step={1}
+              value={[step]}
+              onValueChange={([value]) => {
+                setPlaying(false);
+                onStepChange(value);
+              }}
+            />
+            <p className="h-4 text-xs text-muted-foreground truncate">
+              {current && (current.color === null
+                ? `Backtrack: ${nameOf(current.countryId)} loses its color`
+                : `${nameOf(current.countryId)} gets color ${current.color + 1}`)}
+            </p>
+          </div>
+        )}
+
+        {result && (
+          <>
+            <p className="text-xs">
+              {result.colorCount} colors used, {allProven ? "" : "at most "}{fewestColors} needed
+            </p>
+
+            <ul className="max-h-32 overflow-y-auto space-y-1 text-xs">
+              {result.components.map(component => (
+                <li key={component.index} className="flex items-center justify-between gap-2">
+                  <span className="truncate">
+                    {nameOf(component.hub)}
+                    {component.countryIds.length > 1 ? ` and ${component.countryIds.length - 1} others` : ""}
+                  </span>
+                  <Badge variant="secondary" title={component.proven ? "Chromatic number" : "Upper bound, search gave up"}>
+                    χ {component.proven ? "=" : "≤"} {component.chromaticNumber}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex gap-1">
+              {Array.from({ length: result.colorCount }, (_, index) => (
+                <span key={index} className="h-2.5 w-5 rounded-sm" style={{ backgroundColor: categoryVar(index) }} />
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MapColoringPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCountryName } from '@/hooks/use-country-name';
+import { CentralityMetric, CentralityScores, centralityMetricLabels, rankByScore } from '@/lib/centrality';
+
+interface MetricPanelProps {
+  scores: CentralityScores;
+  metric: CentralityMetric;
+  onMetricChange: (metric: CentralityMetric) => void;
+}
+
+// Countries listed under the metric selector
+const TOP_COUNT = 5;
+
+const formatScore = (metric: CentralityMetric, score: number) =>
+  metric === "degree" ? String(score) : score.toFixed(3);
+
+const MetricPanel: React.FC<MetricPanelProps> = ({ scores, metric, onMetricChange }) => {
+  const nameOf = useCountryName();
+  const top = rankByScore(scores[metric]).slice(0, TOP_COUNT);
+
+  return (
+    <Card className="w-60 bg-white/95 dark:bg-slate-800/95">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <BarChart3 className="h-4 w-4" /> Node size & color
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        <Select value={metric} onValueChange={value => onMetricChange(value as CentralityMetric)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(centralityMetricLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ol className="space-y-1 text-xs">
+          {top.map((id, index) => (
+            <li key={id} className="flex justify-between gap-2">
+              <span className="truncate">{index + 1}. {nameOf(id)}</span>
+              <span className="text-muted-foreground tabular-nums">{formatScore(metric, scores[metric].get(id))}</span>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MetricPanel;
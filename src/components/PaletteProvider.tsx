@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { PaletteContext } from "@/hooks/use-palette";
+import { GraphPalette, graphPaletteLabels } from "@/lib/colors";
+
+type PaletteProviderProps = {
+  children: React.ReactNode;
+  defaultPalette?: GraphPalette;
+  storageKey?: string;
+};
+
+const isPalette = (value: string | null): value is GraphPalette =>
+  value !== null && value in graphPaletteLabels;
+
+export function PaletteProvider({
+  children,
+  defaultPalette = "default",
+  storageKey = "ui-palette",
+  ...props
+}: PaletteProviderProps) {
+  const [palette, setPalette] = useState<GraphPalette>(() => {
+    const stored = localStorage.getItem(storageKey);
+    return isPalette(stored) ? stored : defaultPalette;
+  });
+
+  // The stylesheet swaps the --graph-* colors on this attribute
+  useEffect(() => {
+    const root = window.document.documentElement;
+
+    if (palette === "default") {
+      delete root.dataset.palette;
+      return;
+    }
+
+    root.dataset.palette = palette;
+  }, [palette]);
+
+  const value = {
+    palette,
+    setPalette: (palette: GraphPalette) => {
+      localStorage.setItem(storageKey, palette);
+      setPalette(palette);
+    },
+  };
+
+  return (
+    <PaletteContext.Provider {...props} value={value}>
+      {children}
+    </PaletteContext.Provider>
+  );
+}
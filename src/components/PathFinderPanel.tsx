@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeftRight, Route, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Border, CountryId } from '@/data/countries';
+import { useCountryName } from '@/hooks/use-country-name';
+import { PathResult, findShortestPaths, preferLandWeight } from '@/lib/pathfinding';
+
+interface PathFinderPanelProps {
+  borders: Border[];
+  onPathsChange: (paths: CountryId[][]) => void;
+  // Endpoints chosen outside the panel (e.g. the command palette); a new object runs a new search
+  query?: { from: CountryId; to: CountryId } | null;
+}
+
+// Paths listed in the panel; the graph still highlights all of them
+const MAX_LISTED_PATHS = 10;
+
+const PathFinderPanel: React.FC<PathFinderPanelProps> = ({ borders, onPathsChange, query }) => {
+  const nameOf = useCountryName();
+  const [from, setFrom] = useState<CountryId>("");
+  const [to, setTo] = useState<CountryId>("");
+  const [preferLand, setPreferLand] = useState(false);
+  const [result, setResult] = useState<PathResult | null>(null);
+
+  const options = useMemo(() => {
+    const ids = new Set<CountryId>();
+    borders.forEach(border => {
+      ids.add(border.source);
+      ids.add(border.target);
+    });
+    return Array.from(ids)
+      .map(id => ({ id, name: nameOf(id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [borders, nameOf]);
+
+  const findPath = (source = from, target = to) => {
+    if (!source || !target) return;
+    const next = findShortestPaths(borders, source, target, {
+      weight: preferLand ? preferLandWeight : undefined,
+    });
+    setResult(next);
+    onPathsChange(next.paths);
+  };
+
+  // Only a new query should trigger a search, not edits to the selects
+  const findPathRef = useRef(findPath);
+  findPathRef.current = findPath;
+
+  // Another year or dataset: search again while both countries still exist, otherwise drop what is gone
+  const refreshRef = useRef<() => void>(() => {});
+  refreshRef.current = () => {
+    const ids = new Set(options.map(option => option.id));
+    if (!ids.has(from)) setFrom("");
+    if (!ids.has(to)) setTo("");
+    if (!result) return;
+    if (ids.has(result.from) && ids.has(result.to)) {
+      findPath(result.from, result.to);
+    } else {
+      setResult(null);
+      onPathsChange([]);
+    }
+  };
+
+  useEffect(() => refreshRef.current(), [borders]);
+
+  useEffect(() => {
+    if (!query) return;
+    setFrom(query.from);
+    setTo(query.to);
+    findPathRef.current(query.from, query.to);
+  }, [query]);
+
+  const swap = () => {
+    setFrom(to);
+    setTo(from);
+  };
+
+  const clear = () => {
+    setResult(null);
+    onPathsChange([]);
+  };
+
+  const countrySelect = (value: CountryId, onChange: (id: CountryId) => void, placeholder: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className="w-72 bg-white/95 dark:bg-slate-800/95">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Route className="h-4 w-4" /> Border crossings
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        {countrySelect(from, setFrom, "From")}
+        <div className="flex justify-center">
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={swap} aria-label="Swap countries">
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+        </div>
+        {countrySelect(to, setTo, "To")}
+
+        <div className="flex items-center justify-between pt-1">
+          <Label htmlFor="prefer-land" className="text-xs">Prefer land borders</Label>
+          <Switch id="prefer-land" checked={preferLand} onCheckedChange={setPreferLand} />
+        </div>
+
+        <div className="flex gap-2">
+          <Button size="sm" className="flex-1" onClick={() => findPath()} disabled={!from || !to}>
+            Find path
+          </Button>
+          {result && (
+            <Button size="sm" variant="outline" onClick={clear} aria-label="Clear path">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {result && (
+          result.paths.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No route between {nameOf(result.from)} and {nameOf(result.to)}
+            </p>
+          ) : (
+            <div className="text-sm">
+              <p className="font-medium">
+                {result.hops === result.maxHops ? result.hops : `${result.hops}–${result.maxHops}`}
+                {" "}{result.maxHops === 1 ? "border" : "borders"} · {result.paths.length}
+                {result.truncated ? "+" : ""} shortest {result.paths.length === 1 ? "route" : "routes"}
+              </p>
+              <ol className="max-h-48 overflow-y-auto mt-1 space-y-1 pr-2">
+                {result.paths.slice(0, MAX_LISTED_PATHS).map(path => (
+                  <li key={path.join("-")} className="text-xs text-muted-foreground">
+                    {path.map(nameOf).join(" → ")}
+                    {result.hops !== result.maxHops && ` (${path.length - 1})`}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PathFinderPanel;
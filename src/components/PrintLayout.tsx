@@ -0,0 +1,32 @@
+import React from 'react';
+import { PageSize, pageSizes } from '@/lib/export';
+import { GraphLegendProps, LegendEntries } from './GraphLegend';
+
+interface PrintLayoutProps {
+  // Standalone SVG of the whole graph, fitted to the page
+  svg: string;
+  pageSize: PageSize;
+  title: string;
+  legend: GraphLegendProps;
+}
+
+// Only shown when printing: a landscape page with the title, the graph and its legend
+const PrintLayout: React.FC<PrintLayoutProps> = ({ svg, pageSize, title, legend }) => {
+  const { width, height } = pageSizes[pageSize];
+
+  return (
+    <div className="hidden print:flex flex-col gap-4 text-black [print-color-adjust:exact]">
+      <style>{`@page { size: ${width}mm ${height}mm; margin: 12mm; }`}</style>
+      <header>
+        <h1 className="text-xl font-bold">{title}</h1>
+        <p className="text-xs">Printed {new Date().toLocaleDateString()}</p>
+      </header>
+      <div className="[&>svg]:h-auto [&>svg]:w-full" dangerouslySetInnerHTML={{ __html: svg }} />
+      <div className="w-72">
+        <LegendEntries {...legend} />
+      </div>
+    </div>
+  );
+};
+
+export default PrintLayout;
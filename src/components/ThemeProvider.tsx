@@ -37,13 +37,16 @@ export function ThemeProvider({
     root.classList.remove("light", "dark");
     
     if (theme === "system") {
-      const systemTheme = window.matchMedia("(prefers-color-scheme: dark)")
-        .matches
-        ? "dark"
-        : "light";
-      
-      root.classList.add(systemTheme);
-      return;
+      // Follow the operating system while it switches between light and dark
+      const media = window.matchMedia("(prefers-color-scheme: dark)");
+      const applySystemTheme = () => {
+        root.classList.remove("light", "dark");
+        root.classList.add(media.matches ? "dark" : "light");
+      };
+
+      applySystemTheme();
+      media.addEventListener("change", applySystemTheme);
+      return () => media.removeEventListener("change", applySystemTheme);
     }
     
     root.classList.add(theme);
@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { History, Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { Border, CountryId } from '@/data/countries';
+import { NameOf, useCountryName } from '@/hooks/use-country-name';
+import { changeYears, countryChangesIn, dateOfYear, timelineRange } from '@/lib/timeline';
+
+interface TimelinePanelProps {
+  // Every border of the network, including those that no longer exist
+  borders: Border[];
+  year: number;
+  onYearChange: (year: number) => void;
+}
+
+const YEAR_INTERVAL_MS = 700;
+
+const namesOf = (ids: CountryId[], nameOf: NameOf) => ids.map(nameOf).sort((a, b) => a.localeCompare(b)).join(", ");
+
+// Year slider over the timeline's range; hidden for networks without dates
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ borders, year, onYearChange }) => {
+  const nameOf = useCountryName();
+  const [playing, setPlaying] = useState(false);
+  const years = useMemo(() => changeYears(borders), [borders]);
+  const changes = useMemo(() => countryChangesIn(borders, year), [borders, year]);
+  const [first, last] = useMemo(() => timelineRange(borders) ?? [year, year], [borders, year]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (year >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = window.setTimeout(() => onYearChange(year + 1), YEAR_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, year, last, onYearChange]);
+
+  if (years.length === 0) return null;
+
+  const play = () => {
+    if (year >= last) onYearChange(first);
+    setPlaying(true);
+  };
+
+  // Skip buttons jump between the years in which something changed
+  const jumpTo = (target: number | undefined) => {
+    setPlaying(false);
+    if (target !== undefined) onYearChange(target);
+  };
+  const previousChange = [...years].reverse().find(y => y < year) ?? first;
+  const nextChange = years.find(y => y > year) ?? last;
+
+  return (
+    <Card className="w-[28rem] bg-white/95 dark:bg-slate-800/95">
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center gap-1">
+          <History className="h-4 w-4 mr-1" />
+          <Button size="sm" variant="outline" className="h-8" aria-label="Previous change" onClick={() => jumpTo(previousChange)}>
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            aria-label={playing ? "Pause timeline" : "Play timeline"}
+            onClick={() => playing ? setPlaying(false) : play()}
+          >
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button size="sm" variant="outline" className="h-8" aria-label="Next change" onClick={() => jumpTo(nextChange)}>
+            <SkipForward className="h-4 w-4" />
+          </Button>
+          <span className="ml-auto text-xs text-muted-foreground">
+            Map as of <span className="tabular-nums">{format(dateOfYear(year), "d MMMM yyyy")}</span>
+          </span>
+        </div>
+        <Slider
+          min={first}
+          max={last}
+          step={1}
+          value={[year]}
+          aria-label="Year"
+          onValueChange={([value]) => {
+            setPlaying(false);
+            onYearChange(value);
+          }}
+        />
+        <p className="h-4 text-xs text-muted-foreground truncate">
+          {[
+            changes.founded.length > 0 && `New: ${namesOf(changes.founded, nameOf)}`,
+            changes.dissolved.length > 0 && `Dissolved: ${namesOf(changes.dissolved, nameOf)}`,
+          ].filter(Boolean).join(" · ")}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimelinePanel;
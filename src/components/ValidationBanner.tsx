@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ValidationReport } from '@/lib/validation';
+
+interface ValidationBannerProps {
+  report: ValidationReport;
+}
+
+// Number of issues listed before collapsing the rest into a count
+const MAX_LISTED_ISSUES = 5;
+
+const ValidationBanner: React.FC<ValidationBannerProps> = ({ report }) => {
+  const [dismissed, setDismissed] = useState(false);
+
+  if (dismissed || report.issues.length === 0) return null;
+
+  const listed = report.issues.slice(0, MAX_LISTED_ISSUES);
+  const hidden = report.issues.length - listed.length;
+
+  return (
+    <Alert
+      variant={report.valid ? "default" : "destructive"}
+      className="rounded-none border-x-0 border-t-0 bg-white dark:bg-slate-800"
+    >
+      <AlertTriangle className="h-4 w-4" />
+      <button
+        type="button"
+        onClick={() => setDismissed(true)}
+        className="absolute right-4 top-4 opacity-70 hover:opacity-100"
+        aria-label="Dismiss dataset warnings"
+      >
+        <X className="h-4 w-4" />
+      </button>
+      <AlertTitle>
+        Dataset check found {report.errorCount} errors and {report.warningCount} warnings
+        in {report.bordersChecked} borders
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4">
+          {listed.map((issue, index) => (
+            <li key={index}>{issue.message}</li>
+          ))}
+        </ul>
+        {hidden > 0 && <p>and {hidden} more...</p>}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default ValidationBanner;
@@ -0,0 +1,263 @@
+
+// ISO 3166-1 alpha-3 code. Entities without an official code (Kosovo,
+// Somaliland) use codes from the user-assigned X.. range.
+export type CountryId = string;
+
+export type Continent = "Africa" | "Americas" | "Asia" | "Europe" | "Oceania";
+
+// Geographic extent in degrees: [west, south, east, north]
+export type BoundingBox = [number, number, number, number];
+
+export interface Country {
+  id: CountryId;
+  name: string;
+  // Alternative labels, including the annotated names older datasets used
+  aliases: string[];
+  // Sovereign state for dependencies, special regions and claimed territories
+  parent?: CountryId;
+  // Transcontinental countries list every continent they span
+  continents: Continent[];
+  // Extent of the main territory, without overseas parts or exclaves
+  bbox: BoundingBox;
+  // Approximate center of the main territory as [longitude, latitude]
+  centroid: [number, number];
+  // Lifetime as ISO dates (yyyy-MM-dd); validTo is the first day the country no longer existed
+  validFrom?: string;
+  validTo?: string;
+}
+
+export type BorderKind = "land" | "bridge" | "causeway" | "tunnel" | "maritime";
+
+export interface Border {
+  source: CountryId;
+  target: CountryId;
+  kind: BorderKind;
+  // Exclave or overseas part carrying the border, e.g. Ceuta or Kaliningrad
+  territory?: string;
+  // The territory lies apart from its country's mainland (overseas or exclave)
+  detached?: boolean;
+  lengthKm?: number;
+  disputed?: boolean;
+  // When the border existed, as for countries; a border without dates is as old as its countries
+  validFrom?: string;
+  validTo?: string;
+}
+
+export const borderKindLabels: Record<BorderKind, string> = {
+  land: "Land border",
+  bridge: "Bridge crossing",
+  causeway: "Causeway crossing",
+  tunnel: "Tunnel crossing",
+  maritime: "Maritime boundary",
+};
+
+// Short human readable explanation of a border, e.g. "Causeway crossing, disputed" or "Land border, 435 km, until 2011"
+export const describeBorder = (border: Border) => {
+  const kind = borderKindLabels[border.kind];
+  const parts = [border.territory ? `${kind} via ${border.territory}` : kind];
+  if (border.lengthKm) parts.push(`${border.lengthKm.toLocaleString()} km`);
+  if (border.disputed) parts.push("disputed");
+  if (border.validFrom) parts.push(`since ${border.validFrom.slice(0, 4)}`);
+  if (border.validTo) parts.push(`until ${border.validTo.slice(0, 4)}`);
+  return parts.join(", ");
+};
+
+export const countries: Country[] = [
+  { id: "AFG", name: "Afghanistan", aliases: [], continents: ["Asia"], bbox: [60.5, 29.4, 74.9, 38.5], centroid: [66.0, 33.8] },
+  { id: "ALB", name: "Albania", aliases: [], continents: ["Europe"], bbox: [19.3, 39.6, 21.1, 42.7], centroid: [20.0, 41.1] },
+  { id: "DZA", name: "Algeria", aliases: [], continents: ["Africa"], bbox: [-8.7, 19.0, 12.0, 37.1], centroid: [2.6, 28.2] },
+  { id: "AND", name: "Andorra", aliases: [], continents: ["Europe"], bbox: [1.4, 42.4, 1.8, 42.7], centroid: [1.6, 42.5] },
+  { id: "AGO", name: "Angola", aliases: [], continents: ["Africa"], bbox: [11.6, -18.1, 24.1, -4.4], centroid: [17.5, -12.3] },
+  { id: "ARG", name: "Argentina", aliases: [], continents: ["Americas"], bbox: [-73.6, -55.1, -53.6, -21.8], centroid: [-65.2, -35.4] },
+  { id: "ARM", name: "Armenia", aliases: [], continents: ["Asia"], bbox: [43.4, 38.8, 46.6, 41.3], centroid: [44.9, 40.3] },
+  { id: "AUS", name: "Australia", aliases: [], continents: ["Oceania"], bbox: [113.2, -43.6, 153.6, -10.7], centroid: [134.5, -25.7] },
+  { id: "AUT", name: "Austria", aliases: [], continents: ["Europe"], bbox: [9.5, 46.4, 17.2, 49.0], centroid: [14.1, 47.6] },
+  { id: "AZE", name: "Azerbaijan", aliases: [], continents: ["Asia", "Europe"], bbox: [44.8, 38.4, 50.4, 41.9], centroid: [47.7, 40.3] },
+  { id: "BHR", name: "Bahrain", aliases: [], continents: ["Asia"], bbox: [50.4, 25.8, 50.7, 26.3], centroid: [50.6, 26.0] },
+  { id: "BGD", name: "Bangladesh", aliases: [], continents: ["Asia"], bbox: [88.0, 20.6, 92.7, 26.6], centroid: [90.3, 23.8] },
+  { id: "BLR", name: "Belarus", aliases: [], continents: ["Europe"], bbox: [23.2, 51.3, 32.8, 56.2], centroid: [28.0, 53.5] },
+  { id: "BEL", name: "Belgium", aliases: [], continents: ["Europe"], bbox: [2.5, 49.5, 6.4, 51.5], centroid: [4.6, 50.6] },
+  { id: "BLZ", name: "Belize", aliases: [], continents: ["Americas"], bbox: [-89.2, 15.9, -87.5, 18.5], centroid: [-88.7, 17.2] },
+  { id: "BEN", name: "Benin", aliases: [], continents: ["Africa"], bbox: [0.8, 6.2, 3.8, 12.4], centroid: [2.3, 9.6] },
+  { id: "BTN", name: "Bhutan", aliases: [], continents: ["Asia"], bbox: [88.7, 26.7, 92.1, 28.3], centroid: [90.4, 27.4] },
+  { id: "BOL", name: "Bolivia", aliases: [], continents: ["Americas"], bbox: [-69.6, -22.9, -57.5, -9.7], centroid: [-64.7, -16.7] },
+  { id: "BIH", name: "Bosnia and Herzegovina", aliases: [], continents: ["Europe"], bbox: [15.7, 42.6, 19.6, 45.3], centroid: [17.8, 44.2], validFrom: "1992-03-03" },
+  { id: "BWA", name: "Botswana", aliases: [], continents: ["Africa"], bbox: [20.0, -26.9, 29.4, -17.8], centroid: [23.8, -22.2] },
+  { id: "BRA", name: "Brazil", aliases: [], continents: ["Americas"], bbox: [-74.0, -33.8, -34.8, 5.3], centroid: [-53.1, -10.8] },
+  { id: "BRN", name: "Brunei", aliases: [], continents: ["Asia"], bbox: [114.1, 4.0, 115.4, 5.0], centroid: [114.7, 4.5] },
+  { id: "BGR", name: "Bulgaria", aliases: [], continents: ["Europe"], bbox: [22.4, 41.2, 28.6, 44.2], centroid: [25.2, 42.8] },
+  { id: "BFA", name: "Burkina Faso", aliases: [], continents: ["Africa"], bbox: [-5.5, 9.4, 2.4, 15.1], centroid: [-1.8, 12.3] },
+  { id: "BDI", name: "Burundi", aliases: [], continents: ["Africa"], bbox: [29.0, -4.5, 30.8, -2.3], centroid: [29.9, -3.4] },
+  { id: "KHM", name: "Cambodia", aliases: [], continents: ["Asia"], bbox: [102.3, 10.4, 107.6, 14.7], centroid: [104.9, 12.7] },
+  { id: "CMR", name: "Cameroon", aliases: [], continents: ["Africa"], bbox: [8.5, 1.7, 16.2, 13.1], centroid: [12.7, 5.7] },
+  { id: "CAN", name: "Canada", aliases: [], continents: ["Americas"], bbox: [-141.0, 41.7, -52.6, 83.1], centroid: [-98.3, 61.4] },
+  { id: "CAF", name: "Central African Republic", aliases: ["Central African Rep.", "CAR"], continents: ["Africa"], bbox: [14.4, 2.2, 27.5, 11.0], centroid: [20.5, 6.6] },
+  { id: "TCD", name: "Chad", aliases: [], continents: ["Africa"], bbox: [13.5, 7.4, 24.0, 23.5], centroid: [18.7, 15.3] },
+  { id: "CHL", name: "Chile", aliases: [], continents: ["Americas"], bbox: [-75.7, -55.9, -66.4, -17.5], centroid: [-71.2, -37.7] },
+  { id: "CHN", name: "China", aliases: [], continents: ["Asia"], bbox: [73.5, 18.2, 134.8, 53.6], centroid: [103.8, 36.6] },
+  { id: "COL", name: "Colombia", aliases: [], continents: ["Americas"], bbox: [-79.0, -4.2, -66.9, 12.5], centroid: [-73.1, 3.9] },
+  { id: "COD", name: "DR Congo", aliases: ["Congo, Dem. Rep. of the", "Democratic Republic of the Congo", "DRC", "Congo-Kinshasa"], continents: ["Africa"], bbox: [12.2, -13.5, 31.3, 5.4], centroid: [23.6, -2.9] },
+  { id: "COG", name: "Republic of the Congo", aliases: ["Congo, Rep. of the", "Congo-Brazzaville", "Congo"], continents: ["Africa"], bbox: [11.1, -5.0, 18.6, 3.7], centroid: [15.2, -0.8] },
+  { id: "CRI", name: "Costa Rica", aliases: [], continents: ["Americas"], bbox: [-85.9, 8.0, -82.6, 11.2], centroid: [-84.2, 9.9] },
+  { id: "HRV", name: "Croatia", aliases: [], continents: ["Europe"], bbox: [13.5, 42.4, 19.4, 46.6], centroid: [16.4, 45.1], validFrom: "1991-06-25" },
+  { id: "CUB", name: "Cuba", aliases: [], continents: ["Americas"], bbox: [-85.0, 19.8, -74.1, 23.3], centroid: [-79.0, 21.5] },
+  { id: "CYP", name: "Cyprus", aliases: [], continents: ["Asia"], bbox: [32.3, 34.6, 34.6, 35.7], centroid: [33.2, 35.0] },
+  { id: "CZE", name: "Czechia", aliases: ["Czech Republic"], continents: ["Europe"], bbox: [12.1, 48.6, 18.9, 51.1], centroid: [15.3, 49.7] },
+  { id: "CIV", name: "Côte d'Ivoire", aliases: ["Cote d'Ivoire", "Ivory Coast"], continents: ["Africa"], bbox: [-8.6, 4.4, -2.5, 10.7], centroid: [-5.6, 7.6] },
+  { id: "DNK", name: "Denmark", aliases: [], continents: ["Europe"], bbox: [8.1, 54.6, 15.2, 57.8], centroid: [9.9, 56.0] },
+  { id: "DJI", name: "Djibouti", aliases: [], continents: ["Africa"], bbox: [41.8, 10.9, 43.4, 12.7], centroid: [42.6, 11.8] },
+  { id: "DOM", name: "Dominican Republic", aliases: [], continents: ["Americas"], bbox: [-72.0, 17.5, -68.3, 19.9], centroid: [-70.5, 18.9] },
+  { id: "TLS", name: "Timor-Leste", aliases: ["East Timor (Timor-Leste)", "East Timor"], continents: ["Asia"], bbox: [124.0, -9.5, 127.3, -8.1], centroid: [125.9, -8.8] },
+  { id: "ECU", name: "Ecuador", aliases: [], continents: ["Americas"], bbox: [-81.1, -5.0, -75.2, 1.5], centroid: [-78.4, -1.4] },
+  { id: "EGY", name: "Egypt", aliases: [], continents: ["Africa", "Asia"], bbox: [24.7, 22.0, 36.9, 31.7], centroid: [29.9, 26.5] },
+  { id: "SLV", name: "El Salvador", aliases: [], continents: ["Americas"], bbox: [-90.1, 13.1, -87.7, 14.5], centroid: [-88.9, 13.7] },
+  { id: "GNQ", name: "Equatorial Guinea", aliases: [], continents: ["Africa"], bbox: [5.6, -1.5, 11.3, 3.8], centroid: [10.3, 1.6] },
+  { id: "ERI", name: "Eritrea", aliases: [], continents: ["Africa"], bbox: [36.4, 12.4, 43.1, 18.0], centroid: [38.8, 15.4] },
+  { id: "EST", name: "Estonia", aliases: [], continents: ["Europe"], bbox: [21.8, 57.5, 28.2, 59.7], centroid: [25.5, 58.7] },
+  { id: "SWZ", name: "Eswatini", aliases: ["Eswatini (Swaziland)", "Swaziland"], continents: ["Africa"], bbox: [30.8, -27.3, 32.1, -25.7], centroid: [31.5, -26.6] },
+  { id: "ETH", name: "Ethiopia", aliases: [], continents: ["Africa"], bbox: [33.0, 3.4, 48.0, 14.9], centroid: [39.6, 8.6] },
+  { id: "FIN", name: "Finland", aliases: [], continents: ["Europe"], bbox: [20.6, 59.8, 31.6, 70.1], centroid: [26.3, 64.5] },
+  { id: "FRA", name: "France", aliases: ["France (French Guiana)", "France (Saint Martin)", "French Guiana (France)", "French Guiana", "Saint Martin"], continents: ["Europe"], bbox: [-5.1, 41.3, 9.6, 51.1], centroid: [2.5, 46.6] },
+  { id: "GAB", name: "Gabon", aliases: [], continents: ["Africa"], bbox: [8.7, -4.0, 14.5, 2.3], centroid: [11.8, -0.6] },
+  { id: "GMB", name: "Gambia", aliases: ["Gambia, The", "The Gambia"], continents: ["Africa"], bbox: [-16.8, 13.1, -13.8, 13.8], centroid: [-15.4, 13.4] },
+  { id: "GEO", name: "Georgia", aliases: [], continents: ["Asia", "Europe"], bbox: [40.0, 41.1, 46.7, 43.6], centroid: [43.5, 42.2] },
+  { id: "DEU", name: "Germany", aliases: [], continents: ["Europe"], bbox: [5.9, 47.3, 15.0, 55.1], centroid: [10.4, 51.1] },
+  { id: "GHA", name: "Ghana", aliases: [], continents: ["Africa"], bbox: [-3.3, 4.7, 1.2, 11.2], centroid: [-1.2, 7.9] },
+  { id: "GRC", name: "Greece", aliases: [], continents: ["Europe"], bbox: [19.4, 34.8, 29.6, 41.7], centroid: [22.6, 39.1] },
+  { id: "GRL", name: "Greenland", aliases: ["Greenland (Denmark)"], parent: "DNK", continents: ["Americas"], bbox: [-73.3, 59.8, -11.3, 83.6], centroid: [-41.3, 74.7] },
+  { id: "GTM", name: "Guatemala", aliases: [], continents: ["Americas"], bbox: [-92.2, 13.7, -88.2, 17.8], centroid: [-90.4, 15.7] },
+  { id: "GIN", name: "Guinea", aliases: [], continents: ["Africa"], bbox: [-15.1, 7.2, -7.6, 12.7], centroid: [-11.0, 10.4] },
+  { id: "GNB", name: "Guinea-Bissau", aliases: [], continents: ["Africa"], bbox: [-16.7, 10.9, -13.6, 12.7], centroid: [-15.0, 12.0] },
+  { id: "GUY", name: "Guyana", aliases: [], continents: ["Americas"], bbox: [-61.4, 1.2, -56.5, 8.6], centroid: [-58.9, 4.8] },
+  { id: "HTI", name: "Haiti", aliases: [], continents: ["Americas"], bbox: [-74.5, 18.0, -71.6, 20.1], centroid: [-72.7, 19.0] },
+  { id: "HND", name: "Honduras", aliases: [], continents: ["Americas"], bbox: [-89.4, 13.0, -83.1, 16.5], centroid: [-86.6, 14.8] },
+  { id: "HKG", name: "Hong Kong", aliases: [], parent: "CHN", continents: ["Asia"], bbox: [113.8, 22.2, 114.4, 22.6], centroid: [114.1, 22.4] },
+  { id: "HUN", name: "Hungary", aliases: [], continents: ["Europe"], bbox: [16.1, 45.7, 22.9, 48.6], centroid: [19.4, 47.2] },
+  { id: "IND", name: "India", aliases: [], continents: ["Asia"], bbox: [68.1, 6.7, 97.4, 35.5], centroid: [79.6, 22.9] },
+  { id: "IDN", name: "Indonesia", aliases: [], continents: ["Asia", "Oceania"], bbox: [95.0, -11.0, 141.0, 6.1], centroid: [117.3, -2.2] },
+  { id: "IRN", name: "Iran", aliases: [], continents: ["Asia"], bbox: [44.0, 25.1, 63.3, 39.8], centroid: [54.3, 32.6] },
+  { id: "IRQ", name: "Iraq", aliases: [], continents: ["Asia"], bbox: [38.8, 29.1, 48.6, 37.4], centroid: [43.7, 33.0] },
+  { id: "IRL", name: "Ireland", aliases: [], continents: ["Europe"], bbox: [-10.5, 51.4, -6.0, 55.4], centroid: [-8.1, 53.2] },
+  { id: "ISR", name: "Israel", aliases: [], continents: ["Asia"], bbox: [34.3, 29.5, 35.9, 33.3], centroid: [35.0, 31.4] },
+  { id: "ITA", name: "Italy", aliases: [], continents: ["Europe"], bbox: [6.6, 35.5, 18.5, 47.1], centroid: [12.1, 42.8] },
+  { id: "JAM", name: "Jamaica", aliases: [], continents: ["Americas"], bbox: [-78.4, 17.7, -76.2, 18.5], centroid: [-77.3, 18.1] },
+  { id: "JPN", name: "Japan", aliases: [], continents: ["Asia"], bbox: [129.4, 31.0, 145.8, 45.5], centroid: [138.3, 36.2] },
+  { id: "JOR", name: "Jordan", aliases: [], continents: ["Asia"], bbox: [34.9, 29.2, 39.3, 33.4], centroid: [36.8, 31.2] },
+  { id: "KAZ", name: "Kazakhstan", aliases: [], continents: ["Asia", "Europe"], bbox: [46.5, 40.6, 87.3, 55.4], centroid: [67.3, 48.2] },
+  { id: "KEN", name: "Kenya", aliases: [], continents: ["Africa"], bbox: [33.9, -4.7, 41.9, 5.0], centroid: [37.8, 0.6] },
+  { id: "XKX", name: "Kosovo", aliases: [], continents: ["Europe"], bbox: [20.0, 41.9, 21.8, 43.3], centroid: [20.9, 42.6], validFrom: "2008-02-17" },
+  { id: "KWT", name: "Kuwait", aliases: [], continents: ["Asia"], bbox: [46.6, 28.5, 48.4, 30.1], centroid: [47.6, 29.3] },
+  { id: "KGZ", name: "Kyrgyzstan", aliases: [], continents: ["Asia"], bbox: [69.3, 39.2, 80.3, 43.3], centroid: [74.6, 41.5] },
+  { id: "LAO", name: "Laos", aliases: [], continents: ["Asia"], bbox: [100.1, 13.9, 107.7, 22.5], centroid: [103.7, 18.5] },
+  { id: "LVA", name: "Latvia", aliases: [], continents: ["Europe"], bbox: [21.0, 55.7, 28.2, 58.1], centroid: [24.9, 56.9] },
+  { id: "LBN", name: "Lebanon", aliases: [], continents: ["Asia"], bbox: [35.1, 33.1, 36.6, 34.7], centroid: [35.9, 33.9] },
+  { id: "LSO", name: "Lesotho", aliases: [], continents: ["Africa"], bbox: [27.0, -30.7, 29.5, -28.6], centroid: [28.2, -29.6] },
+  { id: "LBR", name: "Liberia", aliases: [], continents: ["Africa"], bbox: [-11.5, 4.4, -7.4, 8.6], centroid: [-9.3, 6.4] },
+  { id: "LBY", name: "Libya", aliases: [], continents: ["Africa"], bbox: [9.4, 19.5, 25.2, 33.2], centroid: [18.0, 27.0] },
+  { id: "LIE", name: "Liechtenstein", aliases: [], continents: ["Europe"], bbox: [9.5, 47.0, 9.6, 47.3], centroid: [9.55, 47.15] },
+  { id: "LTU", name: "Lithuania", aliases: [], continents: ["Europe"], bbox: [21.0, 53.9, 26.8, 56.5], centroid: [23.9, 55.3] },
+  { id: "LUX", name: "Luxembourg", aliases: [], continents: ["Europe"], bbox: [5.7, 49.4, 6.5, 50.2], centroid: [6.1, 49.8] },
+  { id: "MAC", name: "Macau", aliases: ["Macao"], parent: "CHN", continents: ["Asia"], bbox: [113.5, 22.1, 113.6, 22.2], centroid: [113.55, 22.15] },
+  { id: "MWI", name: "Malawi", aliases: [], continents: ["Africa"], bbox: [32.7, -17.1, 35.9, -9.4], centroid: [34.3, -13.2] },
+  { id: "MYS", name: "Malaysia", aliases: ["Malaysia (Causeways/Bridge)"], continents: ["Asia"], bbox: [99.6, 0.9, 119.3, 7.4], centroid: [109.7, 3.8] },
+  { id: "MLI", name: "Mali", aliases: [], continents: ["Africa"], bbox: [-12.2, 10.2, 4.3, 25.0], centroid: [-3.5, 17.3] },
+  { id: "MLT", name: "Malta", aliases: [], continents: ["Europe"], bbox: [14.2, 35.8, 14.6, 36.1], centroid: [14.4, 35.9] },
+  { id: "MRT", name: "Mauritania", aliases: [], continents: ["Africa"], bbox: [-17.1, 14.7, -4.8, 27.3], centroid: [-10.3, 20.3] },
+  { id: "MEX", name: "Mexico", aliases: [], continents: ["Americas"], bbox: [-118.4, 14.5, -86.7, 32.7], centroid: [-102.5, 23.9] },
+  { id: "MDA", name: "Moldova", aliases: [], continents: ["Europe"], bbox: [26.6, 45.5, 30.1, 48.5], centroid: [28.5, 47.2] },
+  { id: "MCO", name: "Monaco", aliases: [], continents: ["Europe"], bbox: [7.4, 43.7, 7.4, 43.8], centroid: [7.4, 43.75] },
+  { id: "MNG", name: "Mongolia", aliases: [], continents: ["Asia"], bbox: [87.7, 41.6, 119.9, 52.2], centroid: [103.1, 46.8] },
+  { id: "MNE", name: "Montenegro", aliases: [], continents: ["Europe"], bbox: [18.4, 41.9, 20.4, 43.6], centroid: [19.3, 42.8], validFrom: "2006-06-03" },
+  { id: "MAR", name: "Morocco", aliases: [], continents: ["Africa"], bbox: [-13.2, 27.7, -1.0, 35.9], centroid: [-6.3, 31.9] },
+  { id: "MOZ", name: "Mozambique", aliases: [], continents: ["Africa"], bbox: [30.2, -26.9, 40.8, -10.5], centroid: [35.5, -17.3] },
+  { id: "MMR", name: "Myanmar", aliases: ["Burma"], continents: ["Asia"], bbox: [92.2, 9.8, 101.2, 28.5], centroid: [96.5, 21.1] },
+  { id: "NAM", name: "Namibia", aliases: [], continents: ["Africa"], bbox: [11.7, -29.0, 25.3, -16.9], centroid: [17.2, -22.1] },
+  { id: "NPL", name: "Nepal", aliases: [], continents: ["Asia"], bbox: [80.1, 26.3, 88.2, 30.4], centroid: [84.0, 28.2] },
+  { id: "NLD", name: "Netherlands", aliases: [], continents: ["Europe"], bbox: [3.4, 50.8, 7.2, 53.6], centroid: [5.6, 52.2] },
+  { id: "NIC", name: "Nicaragua", aliases: [], continents: ["Americas"], bbox: [-87.7, 10.7, -82.6, 15.0], centroid: [-85.0, 12.9] },
+  { id: "NER", name: "Niger", aliases: [], continents: ["Africa"], bbox: [0.2, 11.7, 16.0, 23.5], centroid: [9.4, 17.4] },
+  { id: "NGA", name: "Nigeria", aliases: [], continents: ["Africa"], bbox: [2.7, 4.3, 14.7, 13.9], centroid: [8.1, 9.6] },
+  { id: "PRK", name: "North Korea", aliases: [], continents: ["Asia"], bbox: [124.2, 37.7, 130.7, 43.0], centroid: [127.2, 40.1] },
+  { id: "MKD", name: "North Macedonia", aliases: ["Macedonia"], continents: ["Europe"], bbox: [20.5, 40.9, 23.0, 42.4], centroid: [21.7, 41.6], validFrom: "1991-09-08" },
+  { id: "NOR", name: "Norway", aliases: [], continents: ["Europe"], bbox: [4.6, 58.0, 31.1, 71.2], centroid: [13.0, 64.5] },
+  { id: "OMN", name: "Oman", aliases: [], continents: ["Asia"], bbox: [52.0, 16.6, 59.8, 26.4], centroid: [56.1, 20.6] },
+  { id: "PAK", name: "Pakistan", aliases: [], continents: ["Asia"], bbox: [60.9, 23.7, 77.8, 37.1], centroid: [69.4, 29.9] },
+  { id: "PSE", name: "Palestine", aliases: ["Gaza Strip (Palestine)", "Palestine (Gaza Strip)", "Palestine (West Bank)", "West Bank (Palestine)", "Gaza Strip", "West Bank"], continents: ["Asia"], bbox: [34.2, 31.2, 35.6, 32.6], centroid: [35.2, 31.9] },
+  { id: "PAN", name: "Panama", aliases: [], continents: ["Americas"], bbox: [-83.1, 7.2, -77.2, 9.7], centroid: [-80.1, 8.5] },
+  { id: "PNG", name: "Papua New Guinea", aliases: [], continents: ["Oceania"], bbox: [140.8, -11.7, 156.0, -1.3], centroid: [145.2, -6.5] },
+  { id: "PRY", name: "Paraguay", aliases: [], continents: ["Americas"], bbox: [-62.6, -27.6, -54.3, -19.3], centroid: [-58.4, -23.2] },
+  { id: "PER", name: "Peru", aliases: [], continents: ["Americas"], bbox: [-81.4, -18.4, -68.7, 0.0], centroid: [-74.4, -9.2] },
+  { id: "PHL", name: "Philippines", aliases: [], continents: ["Asia"], bbox: [116.9, 4.6, 126.6, 21.1], centroid: [122.9, 12.9] },
+  { id: "POL", name: "Poland", aliases: [], continents: ["Europe"], bbox: [14.1, 49.0, 24.2, 54.8], centroid: [19.4, 52.1] },
+  { id: "PRT", name: "Portugal", aliases: [], continents: ["Europe"], bbox: [-9.5, 36.9, -6.2, 42.2], centroid: [-8.0, 39.6] },
+  { id: "QAT", name: "Qatar", aliases: [], continents: ["Asia"], bbox: [50.7, 24.5, 51.7, 26.2], centroid: [51.2, 25.3] },
+  { id: "ROU", name: "Romania", aliases: [], continents: ["Europe"], bbox: [20.3, 43.6, 29.7, 48.3], centroid: [25.0, 45.9] },
+  { id: "RUS", name: "Russia", aliases: ["Russia (Kaliningrad)", "Russian Federation"], continents: ["Europe", "Asia"], bbox: [19.6, 41.2, 180.0, 81.9], centroid: [96.7, 61.9] },
+  { id: "RWA", name: "Rwanda", aliases: [], continents: ["Africa"], bbox: [28.8, -2.9, 30.9, -1.0], centroid: [29.9, -2.0] },
+  { id: "SPM", name: "Saint Pierre and Miquelon", aliases: ["Saint Pierre & Miquelon"], parent: "FRA", continents: ["Americas"], bbox: [-56.5, 46.7, -56.1, 47.2], centroid: [-56.3, 46.9] },
+  { id: "SMR", name: "San Marino", aliases: [], continents: ["Europe"], bbox: [12.4, 43.9, 12.5, 44.0], centroid: [12.45, 43.95] },
+  { id: "SAU", name: "Saudi Arabia", aliases: ["Saudi Arabia (Causeway)"], continents: ["Asia"], bbox: [34.5, 16.3, 55.7, 32.2], centroid: [44.5, 24.1] },
+  { id: "SEN", name: "Senegal", aliases: [], continents: ["Africa"], bbox: [-17.6, 12.3, -11.3, 16.7], centroid: [-14.5, 14.4] },
+  { id: "SRB", name: "Serbia", aliases: [], continents: ["Europe"], bbox: [18.8, 42.2, 23.0, 46.2], centroid: [20.8, 44.2], validFrom: "2006-06-03" },
+  { id: "SCG", name: "Serbia and Montenegro", aliases: ["Federal Republic of Yugoslavia"], continents: ["Europe"], bbox: [18.4, 41.8, 23.0, 46.2], centroid: [20.8, 43.9], validFrom: "1992-04-27", validTo: "2006-06-03" },
+  { id: "SLE", name: "Sierra Leone", aliases: [], continents: ["Africa"], bbox: [-13.3, 6.9, -10.2, 10.0], centroid: [-11.8, 8.6] },
+  { id: "SGP", name: "Singapore", aliases: [], continents: ["Asia"], bbox: [103.6, 1.2, 104.1, 1.5], centroid: [103.8, 1.35] },
+  { id: "SXM", name: "Sint Maarten", aliases: ["Sint Maarten (Netherlands)"], parent: "NLD", continents: ["Americas"], bbox: [-63.2, 18.0, -63.0, 18.1], centroid: [-63.05, 18.04] },
+  { id: "SVK", name: "Slovakia", aliases: [], continents: ["Europe"], bbox: [16.8, 47.7, 22.6, 49.6], centroid: [19.5, 48.7] },
+  { id: "SVN", name: "Slovenia", aliases: [], continents: ["Europe"], bbox: [13.4, 45.4, 16.6, 46.9], centroid: [14.8, 46.1], validFrom: "1991-06-25" },
+  { id: "SOM", name: "Somalia", aliases: [], continents: ["Africa"], bbox: [41.0, -1.7, 51.4, 12.0], centroid: [45.5, 4.5] },
+  { id: "XSL", name: "Somaliland", aliases: ["Somaliland (Disputed)"], parent: "SOM", continents: ["Africa"], bbox: [42.6, 7.9, 49.1, 11.5], centroid: [46.0, 9.7] },
+  { id: "ZAF", name: "South Africa", aliases: [], continents: ["Africa"], bbox: [16.3, -34.9, 32.9, -22.1], centroid: [25.1, -29.0] },
+  { id: "KOR", name: "South Korea", aliases: [], continents: ["Asia"], bbox: [126.1, 33.1, 129.6, 38.6], centroid: [127.8, 36.4] },
+  { id: "SSD", name: "South Sudan", aliases: [], continents: ["Africa"], bbox: [23.4, 3.5, 35.9, 12.2], centroid: [30.2, 7.3], validFrom: "2011-07-09" },
+  { id: "ESP", name: "Spain", aliases: ["Spain (Ceuta, Melilla)", "Ceuta", "Melilla"], continents: ["Europe"], bbox: [-9.4, 35.9, 3.3, 43.8], centroid: [-3.6, 40.2] },
+  { id: "LKA", name: "Sri Lanka", aliases: ["Sri Lanka (Land Shoal)"], continents: ["Asia"], bbox: [79.6, 5.9, 81.9, 9.9], centroid: [80.7, 7.7] },
+  { id: "SDN", name: "Sudan", aliases: [], continents: ["Africa"], bbox: [21.8, 8.7, 38.6, 22.2], centroid: [30.0, 15.9] },
+  { id: "SUR", name: "Suriname", aliases: [], continents: ["Americas"], bbox: [-58.1, 1.8, -53.9, 6.0], centroid: [-55.9, 4.1] },
+  { id: "SWE", name: "Sweden", aliases: [], continents: ["Europe"], bbox: [11.0, 55.3, 24.2, 69.1], centroid: [16.7, 62.8] },
+  { id: "CHE", name: "Switzerland", aliases: [], continents: ["Europe"], bbox: [5.9, 45.8, 10.5, 47.8], centroid: [8.2, 46.8] },
+  { id: "SYR", name: "Syria", aliases: [], continents: ["Asia"], bbox: [35.7, 32.3, 42.4, 37.3], centroid: [38.5, 35.0] },
+  { id: "TJK", name: "Tajikistan", aliases: [], continents: ["Asia"], bbox: [67.3, 36.7, 75.2, 41.0], centroid: [71.0, 38.5] },
+  { id: "TZA", name: "Tanzania", aliases: [], continents: ["Africa"], bbox: [29.3, -11.8, 40.5, -1.0], centroid: [34.8, -6.3] },
+  { id: "THA", name: "Thailand", aliases: [], continents: ["Asia"], bbox: [97.3, 5.6, 105.6, 20.5], centroid: [101.0, 15.1] },
+  { id: "TGO", name: "Togo", aliases: [], continents: ["Africa"], bbox: [-0.2, 6.1, 1.8, 11.1], centroid: [0.98, 8.5] },
+  { id: "TUN", name: "Tunisia", aliases: [], continents: ["Africa"], bbox: [7.5, 30.2, 11.6, 37.4], centroid: [9.6, 34.1] },
+  { id: "TUR", name: "Turkey", aliases: ["Türkiye"], continents: ["Asia", "Europe"], bbox: [26.0, 35.8, 44.8, 42.1], centroid: [35.2, 39.1] },
+  { id: "TKM", name: "Turkmenistan", aliases: [], continents: ["Asia"], bbox: [52.4, 35.1, 66.7, 42.8], centroid: [59.6, 39.1] },
+  { id: "UGA", name: "Uganda", aliases: [], continents: ["Africa"], bbox: [29.6, -1.5, 35.0, 4.2], centroid: [32.4, 1.3] },
+  { id: "UKR", name: "Ukraine", aliases: [], continents: ["Europe"], bbox: [22.1, 44.4, 40.2, 52.4], centroid: [31.4, 49.0] },
+  { id: "ARE", name: "United Arab Emirates", aliases: ["UAE"], continents: ["Asia"], bbox: [51.6, 22.6, 56.4, 26.1], centroid: [54.3, 23.9] },
+  { id: "GBR", name: "United Kingdom", aliases: ["United Kingdom (Gibraltar)", "Akrotiri and Dhekelia (UK)", "Gibraltar", "Akrotiri and Dhekelia", "UK"], continents: ["Europe"], bbox: [-8.7, 49.9, 1.8, 60.9], centroid: [-2.9, 54.1] },
+  { id: "USA", name: "United States", aliases: ["United States of America", "USA"], continents: ["Americas"], bbox: [-179.2, 18.9, -66.9, 71.4], centroid: [-98.6, 39.8] },
+  { id: "URY", name: "Uruguay", aliases: [], continents: ["Americas"], bbox: [-58.4, -35.0, -53.1, -30.1], centroid: [-56.0, -32.8] },
+  { id: "UZB", name: "Uzbekistan", aliases: [], continents: ["Asia"], bbox: [56.0, 37.2, 73.1, 45.6], centroid: [63.2, 41.7] },
+  { id: "VAT", name: "Vatican City", aliases: ["Holy See"], continents: ["Europe"], bbox: [12.4, 41.9, 12.5, 41.9], centroid: [12.45, 41.9] },
+  { id: "VEN", name: "Venezuela", aliases: [], continents: ["Americas"], bbox: [-73.4, 0.6, -59.8, 12.2], centroid: [-66.2, 7.1] },
+  { id: "VNM", name: "Vietnam", aliases: [], continents: ["Asia"], bbox: [102.1, 8.6, 109.5, 23.4], centroid: [106.0, 16.0] },
+  { id: "ESH", name: "Western Sahara", aliases: ["Western Sahara (Disputed)"], continents: ["Africa"], bbox: [-17.1, 20.8, -8.7, 27.7], centroid: [-12.9, 24.2] },
+  { id: "YEM", name: "Yemen", aliases: [], continents: ["Asia"], bbox: [42.5, 12.1, 54.5, 19.0], centroid: [47.6, 15.9] },
+  { id: "YUG", name: "Yugoslavia", aliases: ["Socialist Federal Republic of Yugoslavia"], continents: ["Europe"], bbox: [13.4, 40.8, 23.0, 46.9], centroid: [18.7, 44.0], validTo: "1992-04-27" },
+  { id: "ZMB", name: "Zambia", aliases: [], continents: ["Africa"], bbox: [22.0, -18.1, 33.7, -8.2], centroid: [27.8, -13.5] },
+  { id: "ZWE", name: "Zimbabwe", aliases: [], continents: ["Africa"], bbox: [25.2, -22.4, 33.1, -15.6], centroid: [29.9, -19.0] }
+];
+
+export const countriesById: Record<CountryId, Country> = Object.fromEntries(
+  countries.map(country => [country.id, country])
+);
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// Lookup of every id, display name and alias to its canonical id
+const idsByName = new Map<string, CountryId>();
+countries.forEach(country => {
+  [country.id, country.name, ...country.aliases].forEach(label => {
+    idsByName.set(normalizeName(label), country.id);
+  });
+});
+
+// Resolve a display name, alias or id to the canonical country id
+export const resolveCountryId = (name: string): CountryId | undefined =>
+  idsByName.get(normalizeName(name));
+
+export const getCountryName = (id: CountryId): string =>
+  countriesById[id]?.name ?? id;
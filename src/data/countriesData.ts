@@ -1,339 +1,361 @@
+import { Border, CountryId } from "./countries";
 
-// Array of country pairs that share borders
-export const adjacencyList: [string, string][] = [
-  ["Afghanistan", "China"],
-  ["Afghanistan", "India"],
-  ["Afghanistan", "Iran"],
-  ["Afghanistan", "Pakistan"],
-  ["Afghanistan", "Tajikistan"],
-  ["Afghanistan", "Turkmenistan"],
-  ["Afghanistan", "Uzbekistan"],
-  ["Albania", "Greece"],
-  ["Albania", "Kosovo"],
-  ["Albania", "Montenegro"],
-  ["Albania", "North Macedonia"],
-  ["Algeria", "Libya"],
-  ["Algeria", "Mali"],
-  ["Algeria", "Mauritania"],
-  ["Algeria", "Morocco"],
-  ["Algeria", "Niger"],
-  ["Algeria", "Tunisia"],
-  ["Algeria", "Western Sahara (Disputed)"],
-  ["Andorra", "France"],
-  ["Andorra", "Spain"],
-  ["Angola", "Congo, Dem. Rep. of the"],
-  ["Angola", "Congo, Rep. of the"],
-  ["Angola", "Namibia"],
-  ["Angola", "Zambia"],
-  ["Argentina", "Bolivia"],
-  ["Argentina", "Brazil"],
-  ["Argentina", "Chile"],
-  ["Argentina", "Paraguay"],
-  ["Argentina", "Uruguay"],
-  ["Armenia", "Azerbaijan"],
-  ["Armenia", "Georgia"],
-  ["Armenia", "Iran"],
-  ["Armenia", "Turkey"],
-  ["Austria", "Czech Republic"],
-  ["Austria", "Germany"],
-  ["Austria", "Hungary"],
-  ["Austria", "Italy"],
-  ["Austria", "Liechtenstein"],
-  ["Austria", "Slovakia"],
-  ["Austria", "Slovenia"],
-  ["Austria", "Switzerland"],
-  ["Azerbaijan", "Georgia"],
-  ["Azerbaijan", "Iran"],
-  ["Azerbaijan", "Russia"],
-  ["Bahrain", "Saudi Arabia (Causeway)"],
-  ["Bangladesh", "India"],
-  ["Bangladesh", "Myanmar"],
-  ["Belarus", "Latvia"],
-  ["Belarus", "Lithuania"],
-  ["Belarus", "Poland"],
-  ["Belarus", "Russia"],
-  ["Belarus", "Ukraine"],
-  ["Belgium", "France"],
-  ["Belgium", "Germany"],
-  ["Belgium", "Luxembourg"],
-  ["Belgium", "Netherlands"],
-  ["Belize", "Guatemala"],
-  ["Belize", "Mexico"],
-  ["Benin", "Burkina Faso"],
-  ["Benin", "Niger"],
-  ["Benin", "Nigeria"],
-  ["Benin", "Togo"],
-  ["Bhutan", "China"],
-  ["Bhutan", "India"],
-  ["Bolivia", "Brazil"],
-  ["Bolivia", "Chile"],
-  ["Bolivia", "Paraguay"],
-  ["Bolivia", "Peru"],
-  ["Bosnia and Herzegovina", "Croatia"],
-  ["Bosnia and Herzegovina", "Montenegro"],
-  ["Bosnia and Herzegovina", "Serbia"],
-  ["Botswana", "Namibia"],
-  ["Botswana", "South Africa"],
-  ["Botswana", "Zambia"],
-  ["Botswana", "Zimbabwe"],
-  ["Brazil", "Colombia"],
-  ["Brazil", "French Guiana (France)"],
-  ["Brazil", "Guyana"],
-  ["Brazil", "Paraguay"],
-  ["Brazil", "Peru"],
-  ["Brazil", "Suriname"],
-  ["Brazil", "Uruguay"],
-  ["Brazil", "Venezuela"],
-  ["Brunei", "Malaysia"],
-  ["Bulgaria", "Greece"],
-  ["Bulgaria", "North Macedonia"],
-  ["Bulgaria", "Romania"],
-  ["Bulgaria", "Serbia"],
-  ["Bulgaria", "Turkey"],
-  ["Burkina Faso", "Côte d'Ivoire"],
-  ["Burkina Faso", "Ghana"],
-  ["Burkina Faso", "Mali"],
-  ["Burkina Faso", "Niger"],
-  ["Burkina Faso", "Togo"],
-  ["Burundi", "Congo, Dem. Rep. of the"],
-  ["Burundi", "Rwanda"],
-  ["Burundi", "Tanzania"],
-  ["Cambodia", "Laos"],
-  ["Cambodia", "Thailand"],
-  ["Cambodia", "Vietnam"],
-  ["Cameroon", "Central African Republic"],
-  ["Cameroon", "Chad"],
-  ["Cameroon", "Congo, Rep. of the"],
-  ["Cameroon", "Equatorial Guinea"],
-  ["Cameroon", "Gabon"],
-  ["Cameroon", "Nigeria"],
-  ["Canada", "Greenland (Denmark)"],
-  ["Canada", "United States"],
-  ["Central African Rep.", "Chad"],
-  ["Central African Rep.", "Congo, Dem. Rep. of the"],
-  ["Central African Rep.", "Congo, Rep. of the"],
-  ["Central African Rep.", "South Sudan"],
-  ["Central African Rep.", "Sudan"],
-  ["Chad", "Libya"],
-  ["Chad", "Niger"],
-  ["Chad", "Nigeria"],
-  ["Chad", "Sudan"],
-  ["Chile", "Peru"],
-  ["China", "India"],
-  ["China", "Kazakhstan"],
-  ["China", "Kyrgyzstan"],
-  ["China", "Laos"],
-  ["China", "Mongolia"],
-  ["China", "Myanmar"],
-  ["China", "Nepal"],
-  ["China", "North Korea"],
-  ["China", "Pakistan"],
-  ["China", "Russia"],
-  ["China", "Tajikistan"],
-  ["China", "Vietnam"],
-  ["Colombia", "Ecuador"],
-  ["Colombia", "Panama"],
-  ["Colombia", "Peru"],
-  ["Colombia", "Venezuela"],
-  ["Costa Rica", "Nicaragua"],
-  ["Costa Rica", "Panama"],
-  ["Côte d'Ivoire", "Ghana"],
-  ["Côte d'Ivoire", "Guinea"],
-  ["Côte d'Ivoire", "Liberia"],
-  ["Côte d'Ivoire", "Mali"],
-  ["Croatia", "Hungary"],
-  ["Croatia", "Montenegro"],
-  ["Croatia", "Serbia"],
-  ["Croatia", "Slovenia"],
-  ["Cyprus", "Akrotiri and Dhekelia (UK)"],
-  ["Czech Republic", "Germany"],
-  ["Czech Republic", "Poland"],
-  ["Czech Republic", "Slovakia"],
-  ["Denmark", "Germany"],
-  ["Djibouti", "Eritrea"],
-  ["Djibouti", "Ethiopia"],
-  ["Djibouti", "Somaliland (Disputed)"],
-  ["Dominican Republic", "Haiti"],
-  ["East Timor (Timor-Leste)", "Indonesia"],
-  ["Ecuador", "Peru"],
-  ["Egypt", "Gaza Strip (Palestine)"],
-  ["Egypt", "Israel"],
-  ["Egypt", "Libya"],
-  ["Egypt", "Sudan"],
-  ["El Salvador", "Guatemala"],
-  ["El Salvador", "Honduras"],
-  ["Equatorial Guinea", "Gabon"],
-  ["Eritrea", "Ethiopia"],
-  ["Eritrea", "Sudan"],
-  ["Estonia", "Latvia"],
-  ["Estonia", "Russia"],
-  ["Eswatini (Swaziland)", "Mozambique"],
-  ["Eswatini (Swaziland)", "South Africa"],
-  ["Ethiopia", "Kenya"],
-  ["Ethiopia", "Somalia"],
-  ["Ethiopia", "South Sudan"],
-  ["Ethiopia", "Sudan"],
-  ["Finland", "Norway"],
-  ["Finland", "Russia"],
-  ["Finland", "Sweden"],
-  ["France", "Germany"],
-  ["France", "Italy"],
-  ["France", "Luxembourg"],
-  ["France", "Monaco"],
-  ["France", "Spain"],
-  ["France", "Switzerland"],
-  ["France (French Guiana)", "Suriname"],
-  ["France (Saint Martin)", "Sint Maarten (Netherlands)"],
-  ["Gabon", "Congo, Rep. of the"],
-  ["Gambia, The", "Senegal"],
-  ["Georgia", "Russia"],
-  ["Georgia", "Turkey"],
-  ["Germany", "Luxembourg"],
-  ["Germany", "Netherlands"],
-  ["Germany", "Poland"],
-  ["Germany", "Switzerland"],
-  ["Ghana", "Togo"],
-  ["Greece", "North Macedonia"],
-  ["Greece", "Turkey"],
-  ["Guatemala", "Honduras"],
-  ["Guatemala", "Mexico"],
-  ["Guinea", "Guinea-Bissau"],
-  ["Guinea", "Liberia"],
-  ["Guinea", "Mali"],
-  ["Guinea", "Senegal"],
-  ["Guinea", "Sierra Leone"],
-  ["Guyana", "Suriname"],
-  ["Guyana", "Venezuela"],
-  ["Honduras", "Nicaragua"],
-  ["Hong Kong", "China"],
-  ["Hungary", "Romania"],
-  ["Hungary", "Serbia"],
-  ["Hungary", "Slovakia"],
-  ["Hungary", "Slovenia"],
-  ["Hungary", "Ukraine"],
-  ["India", "Myanmar"],
-  ["India", "Nepal"],
-  ["India", "Pakistan"],
-  ["India", "Sri Lanka (Land Shoal)"],
-  ["Indonesia", "Malaysia"],
-  ["Indonesia", "Papua New Guinea"],
-  ["Iran", "Iraq"],
-  ["Iran", "Pakistan"],
-  ["Iran", "Turkey"],
-  ["Iran", "Turkmenistan"],
-  ["Iraq", "Jordan"],
-  ["Iraq", "Kuwait"],
-  ["Iraq", "Saudi Arabia"],
-  ["Iraq", "Syria"],
-  ["Iraq", "Turkey"],
-  ["Ireland", "United Kingdom"],
-  ["Israel", "Jordan"],
-  ["Israel", "Lebanon"],
-  ["Israel", "Syria"],
-  ["Israel", "West Bank (Palestine)"],
-  ["Italy", "San Marino"],
-  ["Italy", "Slovenia"],
-  ["Italy", "Switzerland"],
-  ["Italy", "Vatican City"],
-  ["Jordan", "Saudi Arabia"],
-  ["Jordan", "Syria"],
-  ["Jordan", "West Bank (Palestine)"],
-  ["Kazakhstan", "Kyrgyzstan"],
-  ["Kazakhstan", "Russia"],
-  ["Kazakhstan", "Turkmenistan"],
-  ["Kazakhstan", "Uzbekistan"],
-  ["Kenya", "Somalia"],
-  ["Kenya", "South Sudan"],
-  ["Kenya", "Tanzania"],
-  ["Kenya", "Uganda"],
-  ["Kosovo", "Montenegro"],
-  ["Kosovo", "North Macedonia"],
-  ["Kosovo", "Serbia"],
-  ["Kuwait", "Saudi Arabia"],
-  ["Kyrgyzstan", "Tajikistan"],
-  ["Kyrgyzstan", "Uzbekistan"],
-  ["Laos", "Myanmar"],
-  ["Laos", "Thailand"],
-  ["Laos", "Vietnam"],
-  ["Latvia", "Lithuania"],
-  ["Latvia", "Russia"],
-  ["Lebanon", "Syria"],
-  ["Lesotho", "South Africa"],
-  ["Liberia", "Sierra Leone"],
-  ["Libya", "Niger"],
-  ["Libya", "Sudan"],
-  ["Libya", "Tunisia"],
-  ["Liechtenstein", "Switzerland"],
-  ["Lithuania", "Poland"],
-  ["Lithuania", "Russia (Kaliningrad)"],
-  ["Luxembourg", "Netherlands"],
-  ["Macau", "China"],
-  ["Malawi", "Mozambique"],
-  ["Malawi", "Tanzania"],
-  ["Malawi", "Zambia"],
-  ["Malaysia", "Thailand"],
-  ["Mali", "Mauritania"],
-  ["Mali", "Niger"],
-  ["Mali", "Senegal"],
-  ["Mauritania", "Senegal"],
-  ["Mauritania", "Western Sahara (Disputed)"],
-  ["Mexico", "United States"],
-  ["Moldova", "Romania"],
-  ["Moldova", "Ukraine"],
-  ["Mongolia", "Russia"],
-  ["Montenegro", "Serbia"],
-  ["Morocco", "Spain (Ceuta, Melilla)"],
-  ["Morocco", "Western Sahara (Disputed)"],
-  ["Mozambique", "South Africa"],
-  ["Mozambique", "Tanzania"],
-  ["Mozambique", "Zambia"],
-  ["Mozambique", "Zimbabwe"],
-  ["Myanmar", "Thailand"],
-  ["Namibia", "South Africa"],
-  ["Namibia", "Zambia"],
-  ["Nepal", "Pakistan"],
-  ["Niger", "Nigeria"],
-  ["North Korea", "Russia"],
-  ["North Korea", "South Korea"],
-  ["North Macedonia", "Serbia"],
-  ["Norway", "Russia"],
-  ["Norway", "Sweden"],
-  ["Oman", "Saudi Arabia"],
-  ["Oman", "United Arab Emirates"],
-  ["Oman", "Yemen"],
-  ["Pakistan", "Turkmenistan"],
-  ["Palestine (Gaza Strip)", "Israel"],
-  ["Palestine (West Bank)", "Jordan"],
-  ["Panama", "Peru"],
-  ["Poland", "Russia (Kaliningrad)"],
-  ["Poland", "Slovakia"],
-  ["Poland", "Ukraine"],
-  ["Portugal", "Spain"],
-  ["Qatar", "Saudi Arabia"],
-  ["Romania", "Serbia"],
-  ["Romania", "Ukraine"],
-  ["Russia", "Ukraine"],
-  ["Rwanda", "Tanzania"],
-  ["Rwanda", "Uganda"],
-  ["Saint Pierre & Miquelon", "Canada"],
-  ["Saudi Arabia", "United Arab Emirates"],
-  ["Saudi Arabia", "Yemen"],
-  ["Serbia", "Ukraine"],
-  ["Singapore", "Malaysia (Causeways/Bridge)"],
-  ["Slovakia", "Ukraine"],
-  ["Somalia", "South Sudan"],
-  ["South Africa", "Zimbabwe"],
-  ["South Sudan", "Sudan"],
-  ["South Sudan", "Uganda"],
-  ["Spain", "United Kingdom (Gibraltar)"],
-  ["Sudan", "Uganda"],
-  ["Suriname", "Venezuela"],
-  ["Syria", "Turkey"],
-  ["Tajikistan", "Uzbekistan"],
-  ["Tanzania", "Uganda"],
-  ["Tanzania", "Zambia"],
-  ["Togo", "Uganda"],
-  ["Uganda", "Zambia"],
-  ["Uzbekistan", "Yemen"],
-  ["Zambia", "Zimbabwe"]
+// Shared borders between countries, keyed by ISO 3166-1 alpha-3 id
+export const borders: Border[] = [
+  { source: "AFG", target: "CHN", kind: "land", lengthKm: 91 },
+  { source: "AFG", target: "IND", kind: "land", lengthKm: 106, disputed: true },
+  { source: "AFG", target: "IRN", kind: "land", lengthKm: 921 },
+  { source: "AFG", target: "PAK", kind: "land", lengthKm: 2670 },
+  { source: "AFG", target: "TJK", kind: "land", lengthKm: 1357 },
+  { source: "AFG", target: "TKM", kind: "land", lengthKm: 804 },
+  { source: "AFG", target: "UZB", kind: "land", lengthKm: 144 },
+  { source: "ALB", target: "GRC", kind: "land", lengthKm: 212 },
+  { source: "ALB", target: "XKX", kind: "land", lengthKm: 112, validFrom: "2008-02-17" },
+  { source: "ALB", target: "MNE", kind: "land", lengthKm: 186, validFrom: "2006-06-03" },
+  { source: "ALB", target: "MKD", kind: "land", lengthKm: 181, validFrom: "1991-09-08" },
+  { source: "DZA", target: "LBY", kind: "land", lengthKm: 989 },
+  { source: "DZA", target: "MLI", kind: "land", lengthKm: 1359 },
+  { source: "DZA", target: "MRT", kind: "land", lengthKm: 460 },
+  { source: "DZA", target: "MAR", kind: "land", lengthKm: 1941 },
+  { source: "DZA", target: "NER", kind: "land", lengthKm: 951 },
+  { source: "DZA", target: "TUN", kind: "land", lengthKm: 1034 },
+  { source: "DZA", target: "ESH", kind: "land", lengthKm: 41, disputed: true },
+  { source: "AND", target: "FRA", kind: "land", lengthKm: 55 },
+  { source: "AND", target: "ESP", kind: "land", lengthKm: 63 },
+  { source: "AGO", target: "COD", kind: "land", lengthKm: 2646 },
+  { source: "AGO", target: "COG", kind: "land", territory: "Cabinda", detached: true, lengthKm: 231 },
+  { source: "AGO", target: "NAM", kind: "land", lengthKm: 1427 },
+  { source: "AGO", target: "ZMB", kind: "land", lengthKm: 1065 },
+  { source: "ARG", target: "BOL", kind: "land", lengthKm: 942 },
+  { source: "ARG", target: "BRA", kind: "land", lengthKm: 1263 },
+  { source: "ARG", target: "CHL", kind: "land", lengthKm: 6691 },
+  { source: "ARG", target: "PRY", kind: "land", lengthKm: 2531 },
+  { source: "ARG", target: "URY", kind: "land", lengthKm: 541 },
+  { source: "ARM", target: "AZE", kind: "land", lengthKm: 996 },
+  { source: "ARM", target: "GEO", kind: "land", lengthKm: 219 },
+  { source: "ARM", target: "IRN", kind: "land", lengthKm: 44 },
+  { source: "ARM", target: "TUR", kind: "land", lengthKm: 311 },
+  { source: "AUT", target: "CZE", kind: "land", lengthKm: 402 },
+  { source: "AUT", target: "DEU", kind: "land", lengthKm: 801 },
+  { source: "AUT", target: "HUN", kind: "land", lengthKm: 321 },
+  { source: "AUT", target: "ITA", kind: "land", lengthKm: 404 },
+  { source: "AUT", target: "LIE", kind: "land", lengthKm: 34 },
+  { source: "AUT", target: "SVK", kind: "land", lengthKm: 105 },
+  { source: "AUT", target: "SVN", kind: "land", lengthKm: 299, validFrom: "1991-06-25" },
+  { source: "AUT", target: "CHE", kind: "land", lengthKm: 158 },
+  { source: "AZE", target: "GEO", kind: "land", lengthKm: 428 },
+  { source: "AZE", target: "IRN", kind: "land", lengthKm: 689 },
+  { source: "AZE", target: "RUS", kind: "land", lengthKm: 338 },
+  { source: "BHR", target: "SAU", kind: "causeway" },
+  { source: "BGD", target: "IND", kind: "land", lengthKm: 4142 },
+  { source: "BGD", target: "MMR", kind: "land", lengthKm: 271 },
+  { source: "BLR", target: "LVA", kind: "land", lengthKm: 161 },
+  { source: "BLR", target: "LTU", kind: "land", lengthKm: 640 },
+  { source: "BLR", target: "POL", kind: "land", lengthKm: 375 },
+  { source: "BLR", target: "RUS", kind: "land", lengthKm: 1312 },
+  { source: "BLR", target: "UKR", kind: "land", lengthKm: 1111 },
+  { source: "BEL", target: "FRA", kind: "land", lengthKm: 556 },
+  { source: "BEL", target: "DEU", kind: "land", lengthKm: 133 },
+  { source: "BEL", target: "LUX", kind: "land", lengthKm: 130 },
+  { source: "BEL", target: "NLD", kind: "land", lengthKm: 478 },
+  { source: "BLZ", target: "GTM", kind: "land", lengthKm: 266 },
+  { source: "BLZ", target: "MEX", kind: "land", lengthKm: 276 },
+  { source: "BEN", target: "BFA", kind: "land", lengthKm: 386 },
+  { source: "BEN", target: "NER", kind: "land", lengthKm: 277 },
+  { source: "BEN", target: "NGA", kind: "land", lengthKm: 809 },
+  { source: "BEN", target: "TGO", kind: "land", lengthKm: 651 },
+  { source: "BTN", target: "CHN", kind: "land", lengthKm: 477 },
+  { source: "BTN", target: "IND", kind: "land", lengthKm: 659 },
+  { source: "BOL", target: "BRA", kind: "land", lengthKm: 3403 },
+  { source: "BOL", target: "CHL", kind: "land", lengthKm: 942 },
+  { source: "BOL", target: "PRY", kind: "land", lengthKm: 753 },
+  { source: "BOL", target: "PER", kind: "land", lengthKm: 1212 },
+  { source: "BIH", target: "HRV", kind: "land", lengthKm: 956, validFrom: "1992-03-03" },
+  { source: "BIH", target: "MNE", kind: "land", lengthKm: 242, validFrom: "2006-06-03" },
+  { source: "BIH", target: "SRB", kind: "land", lengthKm: 345, validFrom: "2006-06-03" },
+  { source: "BWA", target: "NAM", kind: "land", lengthKm: 1544 },
+  { source: "BWA", target: "ZAF", kind: "land", lengthKm: 1969 },
+  { source: "BWA", target: "ZMB", kind: "land", lengthKm: 0.15 },
+  { source: "BWA", target: "ZWE", kind: "land", lengthKm: 834 },
+  { source: "BRA", target: "COL", kind: "land", lengthKm: 1790 },
+  { source: "BRA", target: "FRA", kind: "land", territory: "French Guiana", detached: true, lengthKm: 649 },
+  { source: "BRA", target: "GUY", kind: "land", lengthKm: 1308 },
+  { source: "BRA", target: "PRY", kind: "land", lengthKm: 1371 },
+  { source: "BRA", target: "PER", kind: "land", lengthKm: 2659 },
+  { source: "BRA", target: "SUR", kind: "land", lengthKm: 515 },
+  { source: "BRA", target: "URY", kind: "land", lengthKm: 1050 },
+  { source: "BRA", target: "VEN", kind: "land", lengthKm: 2137 },
+  { source: "BRN", target: "MYS", kind: "land", lengthKm: 266 },
+  { source: "BGR", target: "GRC", kind: "land", lengthKm: 472 },
+  { source: "BGR", target: "MKD", kind: "land", lengthKm: 162, validFrom: "1991-09-08" },
+  { source: "BGR", target: "ROU", kind: "land", lengthKm: 605 },
+  { source: "BGR", target: "SRB", kind: "land", lengthKm: 344, validFrom: "2006-06-03" },
+  { source: "BGR", target: "TUR", kind: "land", lengthKm: 223 },
+  { source: "BFA", target: "CIV", kind: "land", lengthKm: 545 },
+  { source: "BFA", target: "GHA", kind: "land", lengthKm: 602 },
+  { source: "BFA", target: "MLI", kind: "land", lengthKm: 1325 },
+  { source: "BFA", target: "NER", kind: "land", lengthKm: 622 },
+  { source: "BFA", target: "TGO", kind: "land", lengthKm: 131 },
+  { source: "BDI", target: "COD", kind: "land", lengthKm: 236 },
+  { source: "BDI", target: "RWA", kind: "land", lengthKm: 315 },
+  { source: "BDI", target: "TZA", kind: "land", lengthKm: 589 },
+  { source: "KHM", target: "LAO", kind: "land", lengthKm: 555 },
+  { source: "KHM", target: "THA", kind: "land", lengthKm: 817 },
+  { source: "KHM", target: "VNM", kind: "land", lengthKm: 1158 },
+  { source: "CMR", target: "CAF", kind: "land", lengthKm: 901 },
+  { source: "CMR", target: "TCD", kind: "land", lengthKm: 1116 },
+  { source: "CMR", target: "COG", kind: "land", lengthKm: 494 },
+  { source: "CMR", target: "GNQ", kind: "land", lengthKm: 183 },
+  { source: "CMR", target: "GAB", kind: "land", lengthKm: 349 },
+  { source: "CMR", target: "NGA", kind: "land", lengthKm: 1975 },
+  { source: "CAN", target: "GRL", kind: "land", lengthKm: 1.3 },
+  { source: "CAN", target: "USA", kind: "land", lengthKm: 8891 },
+  { source: "CAF", target: "TCD", kind: "land", lengthKm: 1556 },
+  { source: "CAF", target: "COD", kind: "land", lengthKm: 1747 },
+  { source: "CAF", target: "COG", kind: "land", lengthKm: 487 },
+  { source: "CAF", target: "SSD", kind: "land", lengthKm: 1055, validFrom: "2011-07-09" },
+  { source: "CAF", target: "SDN", kind: "land", lengthKm: 174 },
+  { source: "TCD", target: "LBY", kind: "land", lengthKm: 1050 },
+  { source: "TCD", target: "NER", kind: "land", lengthKm: 1196 },
+  { source: "TCD", target: "NGA", kind: "land", lengthKm: 85 },
+  { source: "TCD", target: "SDN", kind: "land", lengthKm: 1403 },
+  { source: "CHL", target: "PER", kind: "land", lengthKm: 168 },
+  { source: "CHN", target: "IND", kind: "land", lengthKm: 2659, disputed: true },
+  { source: "CHN", target: "KAZ", kind: "land", lengthKm: 1765 },
+  { source: "CHN", target: "KGZ", kind: "land", lengthKm: 1063 },
+  { source: "CHN", target: "LAO", kind: "land", lengthKm: 475 },
+  { source: "CHN", target: "MNG", kind: "land", lengthKm: 4630 },
+  { source: "CHN", target: "MMR", kind: "land", lengthKm: 2129 },
+  { source: "CHN", target: "NPL", kind: "land", lengthKm: 1389 },
+  { source: "CHN", target: "PRK", kind: "land", lengthKm: 1352 },
+  { source: "CHN", target: "PAK", kind: "land", lengthKm: 438, disputed: true },
+  { source: "CHN", target: "RUS", kind: "land", lengthKm: 4133 },
+  { source: "CHN", target: "TJK", kind: "land", lengthKm: 477 },
+  { source: "CHN", target: "VNM", kind: "land", lengthKm: 1297 },
+  { source: "COL", target: "ECU", kind: "land", lengthKm: 708 },
+  { source: "COL", target: "PAN", kind: "land", lengthKm: 339 },
+  { source: "COL", target: "PER", kind: "land", lengthKm: 1494 },
+  { source: "COL", target: "VEN", kind: "land", lengthKm: 2341 },
+  { source: "CRI", target: "NIC", kind: "land", lengthKm: 313 },
+  { source: "CRI", target: "PAN", kind: "land", lengthKm: 348 },
+  { source: "CIV", target: "GHA", kind: "land", lengthKm: 720 },
+  { source: "CIV", target: "GIN", kind: "land", lengthKm: 816 },
+  { source: "CIV", target: "LBR", kind: "land", lengthKm: 778 },
+  { source: "CIV", target: "MLI", kind: "land", lengthKm: 599 },
+  { source: "HRV", target: "HUN", kind: "land", lengthKm: 348, validFrom: "1991-06-25" },
+  { source: "HRV", target: "MNE", kind: "land", lengthKm: 19, validFrom: "2006-06-03" },
+  { source: "HRV", target: "SRB", kind: "land", lengthKm: 314, validFrom: "2006-06-03" },
+  { source: "HRV", target: "SVN", kind: "land", lengthKm: 600, validFrom: "1991-06-25" },
+  { source: "CYP", target: "GBR", kind: "land", territory: "Akrotiri and Dhekelia", detached: true, lengthKm: 156 },
+  { source: "CZE", target: "DEU", kind: "land", lengthKm: 704 },
+  { source: "CZE", target: "POL", kind: "land", lengthKm: 796 },
+  { source: "CZE", target: "SVK", kind: "land", lengthKm: 241 },
+  { source: "DNK", target: "DEU", kind: "land", lengthKm: 140 },
+  { source: "DJI", target: "ERI", kind: "land", lengthKm: 125 },
+  { source: "DJI", target: "ETH", kind: "land", lengthKm: 342 },
+  { source: "DJI", target: "XSL", kind: "land", lengthKm: 61, disputed: true },
+  { source: "DOM", target: "HTI", kind: "land", lengthKm: 376 },
+  { source: "TLS", target: "IDN", kind: "land", lengthKm: 253 },
+  { source: "ECU", target: "PER", kind: "land", lengthKm: 1529 },
+  { source: "EGY", target: "PSE", kind: "land", territory: "Gaza Strip", lengthKm: 13 },
+  { source: "EGY", target: "ISR", kind: "land", lengthKm: 208 },
+  { source: "EGY", target: "LBY", kind: "land", lengthKm: 1115 },
+  { source: "EGY", target: "SDN", kind: "land", lengthKm: 1276, disputed: true },
+  { source: "SLV", target: "GTM", kind: "land", lengthKm: 199 },
+  { source: "SLV", target: "HND", kind: "land", lengthKm: 391 },
+  { source: "GNQ", target: "GAB", kind: "land", lengthKm: 345 },
+  { source: "ERI", target: "ETH", kind: "land", lengthKm: 1033 },
+  { source: "ERI", target: "SDN", kind: "land", lengthKm: 682 },
+  { source: "EST", target: "LVA", kind: "land", lengthKm: 333 },
+  { source: "EST", target: "RUS", kind: "land", lengthKm: 324 },
+  { source: "SWZ", target: "MOZ", kind: "land", lengthKm: 108 },
+  { source: "SWZ", target: "ZAF", kind: "land", lengthKm: 438 },
+  { source: "ETH", target: "KEN", kind: "land", lengthKm: 867 },
+  { source: "ETH", target: "SOM", kind: "land", lengthKm: 1640 },
+  { source: "ETH", target: "SSD", kind: "land", lengthKm: 1299, validFrom: "2011-07-09" },
+  { source: "ETH", target: "SDN", kind: "land", lengthKm: 744 },
+  { source: "FIN", target: "NOR", kind: "land", lengthKm: 709 },
+  { source: "FIN", target: "RUS", kind: "land", lengthKm: 1309 },
+  { source: "FIN", target: "SWE", kind: "land", lengthKm: 545 },
+  { source: "FRA", target: "DEU", kind: "land", lengthKm: 418 },
+  { source: "FRA", target: "ITA", kind: "land", lengthKm: 476 },
+  { source: "FRA", target: "LUX", kind: "land", lengthKm: 69 },
+  { source: "FRA", target: "MCO", kind: "land", lengthKm: 6 },
+  { source: "FRA", target: "ESP", kind: "land", lengthKm: 646 },
+  { source: "FRA", target: "CHE", kind: "land", lengthKm: 525 },
+  { source: "FRA", target: "SUR", kind: "land", territory: "French Guiana", detached: true, lengthKm: 556 },
+  { source: "FRA", target: "SXM", kind: "land", territory: "Saint Martin", detached: true, lengthKm: 10 },
+  { source: "GAB", target: "COG", kind: "land", lengthKm: 2567 },
+  { source: "GMB", target: "SEN", kind: "land", lengthKm: 749 },
+  { source: "GEO", target: "RUS", kind: "land", lengthKm: 894 },
+  { source: "GEO", target: "TUR", kind: "land", lengthKm: 273 },
+  { source: "DEU", target: "LUX", kind: "land", lengthKm: 128 },
+  { source: "DEU", target: "NLD", kind: "land", lengthKm: 575 },
+  { source: "DEU", target: "POL", kind: "land", lengthKm: 467 },
+  { source: "DEU", target: "CHE", kind: "land", lengthKm: 348 },
+  { source: "GHA", target: "TGO", kind: "land", lengthKm: 1098 },
+  { source: "GRC", target: "MKD", kind: "land", lengthKm: 234, validFrom: "1991-09-08" },
+  { source: "GRC", target: "TUR", kind: "land", lengthKm: 192 },
+  { source: "GTM", target: "HND", kind: "land", lengthKm: 244 },
+  { source: "GTM", target: "MEX", kind: "land", lengthKm: 871 },
+  { source: "GIN", target: "GNB", kind: "land", lengthKm: 421 },
+  { source: "GIN", target: "LBR", kind: "land", lengthKm: 590 },
+  { source: "GIN", target: "MLI", kind: "land", lengthKm: 1062 },
+  { source: "GIN", target: "SEN", kind: "land", lengthKm: 363 },
+  { source: "GIN", target: "SLE", kind: "land", lengthKm: 794 },
+  { source: "GUY", target: "SUR", kind: "land", lengthKm: 836 },
+  { source: "GUY", target: "VEN", kind: "land", lengthKm: 789, disputed: true },
+  { source: "HND", target: "NIC", kind: "land", lengthKm: 940 },
+  { source: "HKG", target: "CHN", kind: "land", lengthKm: 33 },
+  { source: "HUN", target: "ROU", kind: "land", lengthKm: 424 },
+  { source: "HUN", target: "SRB", kind: "land", lengthKm: 164, validFrom: "2006-06-03" },
+  { source: "HUN", target: "SVK", kind: "land", lengthKm: 627 },
+  { source: "HUN", target: "SVN", kind: "land", lengthKm: 94, validFrom: "1991-06-25" },
+  { source: "HUN", target: "UKR", kind: "land", lengthKm: 128 },
+  { source: "IND", target: "MMR", kind: "land", lengthKm: 1468 },
+  { source: "IND", target: "NPL", kind: "land", lengthKm: 1770 },
+  { source: "IND", target: "PAK", kind: "land", lengthKm: 3190, disputed: true },
+  { source: "IND", target: "LKA", kind: "maritime" },
+  { source: "IDN", target: "MYS", kind: "land", lengthKm: 1881 },
+  { source: "IDN", target: "PNG", kind: "land", lengthKm: 824 },
+  { source: "IRN", target: "IRQ", kind: "land", lengthKm: 1599 },
+  { source: "IRN", target: "PAK", kind: "land", lengthKm: 959 },
+  { source: "IRN", target: "TUR", kind: "land", lengthKm: 534 },
+  { source: "IRN", target: "TKM", kind: "land", lengthKm: 1148 },
+  { source: "IRQ", target: "JOR", kind: "land", lengthKm: 179 },
+  { source: "IRQ", target: "KWT", kind: "land", lengthKm: 254 },
+  { source: "IRQ", target: "SAU", kind: "land", lengthKm: 811 },
+  { source: "IRQ", target: "SYR", kind: "land", lengthKm: 599 },
+  { source: "IRQ", target: "TUR", kind: "land", lengthKm: 367 },
+  { source: "IRL", target: "GBR", kind: "land", lengthKm: 490 },
+  { source: "ISR", target: "JOR", kind: "land", lengthKm: 307 },
+  { source: "ISR", target: "LBN", kind: "land", lengthKm: 81 },
+  { source: "ISR", target: "SYR", kind: "land", lengthKm: 83, disputed: true },
+  { source: "ISR", target: "PSE", kind: "land", territory: "Gaza Strip", lengthKm: 59 },
+  { source: "ISR", target: "PSE", kind: "land", territory: "West Bank", lengthKm: 330 },
+  { source: "ITA", target: "SMR", kind: "land", lengthKm: 37 },
+  { source: "ITA", target: "SVN", kind: "land", lengthKm: 218, validFrom: "1991-06-25" },
+  { source: "ITA", target: "CHE", kind: "land", lengthKm: 698 },
+  { source: "ITA", target: "VAT", kind: "land", lengthKm: 3.2 },
+  { source: "JOR", target: "SAU", kind: "land", lengthKm: 731 },
+  { source: "JOR", target: "SYR", kind: "land", lengthKm: 379 },
+  { source: "JOR", target: "PSE", kind: "land", territory: "West Bank", lengthKm: 148 },
+  { source: "KAZ", target: "KGZ", kind: "land", lengthKm: 1212 },
+  { source: "KAZ", target: "RUS", kind: "land", lengthKm: 7644 },
+  { source: "KAZ", target: "TKM", kind: "land", lengthKm: 413 },
+  { source: "KAZ", target: "UZB", kind: "land", lengthKm: 2330 },
+  { source: "KEN", target: "SOM", kind: "land", lengthKm: 684 },
+  { source: "KEN", target: "SSD", kind: "land", lengthKm: 317, disputed: true, validFrom: "2011-07-09" },
+  { source: "KEN", target: "TZA", kind: "land", lengthKm: 775 },
+  { source: "KEN", target: "UGA", kind: "land", lengthKm: 814 },
+  { source: "XKX", target: "MNE", kind: "land", lengthKm: 76, validFrom: "2008-02-17" },
+  { source: "XKX", target: "MKD", kind: "land", lengthKm: 160, validFrom: "2008-02-17" },
+  { source: "XKX", target: "SRB", kind: "land", lengthKm: 366, disputed: true, validFrom: "2008-02-17" },
+  { source: "KWT", target: "SAU", kind: "land", lengthKm: 221 },
+  { source: "KGZ", target: "TJK", kind: "land", lengthKm: 984 },
+  { source: "KGZ", target: "UZB", kind: "land", lengthKm: 1314 },
+  { source: "LAO", target: "MMR", kind: "land", lengthKm: 238 },
+  { source: "LAO", target: "THA", kind: "land", lengthKm: 1845 },
+  { source: "LAO", target: "VNM", kind: "land", lengthKm: 2161 },
+  { source: "LVA", target: "LTU", kind: "land", lengthKm: 544 },
+  { source: "LVA", target: "RUS", kind: "land", lengthKm: 332 },
+  { source: "LBN", target: "SYR", kind: "land", lengthKm: 403 },
+  { source: "LSO", target: "ZAF", kind: "land", lengthKm: 1106 },
+  { source: "LBR", target: "SLE", kind: "land", lengthKm: 299 },
+  { source: "LBY", target: "NER", kind: "land", lengthKm: 342 },
+  { source: "LBY", target: "SDN", kind: "land", lengthKm: 382 },
+  { source: "LBY", target: "TUN", kind: "land", lengthKm: 461 },
+  { source: "LIE", target: "CHE", kind: "land", lengthKm: 41 },
+  { source: "LTU", target: "POL", kind: "land", lengthKm: 104 },
+  { source: "LTU", target: "RUS", kind: "land", territory: "Kaliningrad", detached: true, lengthKm: 261 },
+  { source: "MAC", target: "CHN", kind: "land", lengthKm: 3 },
+  { source: "MWI", target: "MOZ", kind: "land", lengthKm: 1498 },
+  { source: "MWI", target: "TZA", kind: "land", lengthKm: 512 },
+  { source: "MWI", target: "ZMB", kind: "land", lengthKm: 951 },
+  { source: "MYS", target: "THA", kind: "land", lengthKm: 595 },
+  { source: "MLI", target: "MRT", kind: "land", lengthKm: 2236 },
+  { source: "MLI", target: "NER", kind: "land", lengthKm: 838 },
+  { source: "MLI", target: "SEN", kind: "land", lengthKm: 489 },
+  { source: "MRT", target: "SEN", kind: "land", lengthKm: 742 },
+  { source: "MRT", target: "ESH", kind: "land", lengthKm: 1564, disputed: true },
+  { source: "MEX", target: "USA", kind: "land", lengthKm: 3155 },
+  { source: "MDA", target: "ROU", kind: "land", lengthKm: 683 },
+  { source: "MDA", target: "UKR", kind: "land", lengthKm: 1202 },
+  { source: "MNG", target: "RUS", kind: "land", lengthKm: 3452 },
+  { source: "MNE", target: "SRB", kind: "land", lengthKm: 157, validFrom: "2006-06-03" },
+  { source: "MAR", target: "ESP", kind: "land", territory: "Ceuta and Melilla", detached: true, lengthKm: 18 },
+  { source: "MAR", target: "ESH", kind: "land", lengthKm: 444, disputed: true },
+  { source: "MOZ", target: "ZAF", kind: "land", lengthKm: 496 },
+  { source: "MOZ", target: "TZA", kind: "land", lengthKm: 840 },
+  { source: "MOZ", target: "ZMB", kind: "land", lengthKm: 439 },
+  { source: "MOZ", target: "ZWE", kind: "land", lengthKm: 1402 },
+  { source: "MMR", target: "THA", kind: "land", lengthKm: 2416 },
+  { source: "NAM", target: "ZAF", kind: "land", lengthKm: 1005 },
+  { source: "NAM", target: "ZMB", kind: "land", lengthKm: 244 },
+  { source: "NER", target: "NGA", kind: "land", lengthKm: 1608 },
+  { source: "PRK", target: "RUS", kind: "land", lengthKm: 18 },
+  { source: "PRK", target: "KOR", kind: "land", lengthKm: 237 },
+  { source: "MKD", target: "SRB", kind: "land", lengthKm: 101, validFrom: "2006-06-03" },
+  { source: "NOR", target: "RUS", kind: "land", lengthKm: 191 },
+  { source: "NOR", target: "SWE", kind: "land", lengthKm: 1619 },
+  { source: "OMN", target: "SAU", kind: "land", lengthKm: 658 },
+  { source: "OMN", target: "ARE", kind: "land", lengthKm: 609 },
+  { source: "OMN", target: "YEM", kind: "land", lengthKm: 294 },
+  { source: "POL", target: "RUS", kind: "land", territory: "Kaliningrad", detached: true, lengthKm: 210 },
+  { source: "POL", target: "SVK", kind: "land", lengthKm: 541 },
+  { source: "POL", target: "UKR", kind: "land", lengthKm: 498 },
+  { source: "PRT", target: "ESP", kind: "land", lengthKm: 1224 },
+  { source: "QAT", target: "SAU", kind: "land", lengthKm: 87 },
+  { source: "ROU", target: "SRB", kind: "land", lengthKm: 531, validFrom: "2006-06-03" },
+  { source: "ROU", target: "UKR", kind: "land", lengthKm: 601 },
+  { source: "RUS", target: "UKR", kind: "land", lengthKm: 1944 },
+  { source: "RWA", target: "TZA", kind: "land", lengthKm: 217 },
+  { source: "RWA", target: "UGA", kind: "land", lengthKm: 172 },
+  { source: "SPM", target: "CAN", kind: "maritime" },
+  { source: "SAU", target: "ARE", kind: "land", lengthKm: 457 },
+  { source: "SAU", target: "YEM", kind: "land", lengthKm: 1307 },
+  { source: "SGP", target: "MYS", kind: "causeway" },
+  { source: "SVK", target: "UKR", kind: "land", lengthKm: 97 },
+  { source: "ZAF", target: "ZWE", kind: "land", lengthKm: 230 },
+  { source: "SSD", target: "SDN", kind: "land", lengthKm: 2158, disputed: true, validFrom: "2011-07-09" },
+  { source: "SSD", target: "UGA", kind: "land", lengthKm: 475, validFrom: "2011-07-09" },
+  { source: "ESP", target: "GBR", kind: "land", territory: "Gibraltar", detached: true, lengthKm: 1.2 },
+  { source: "SYR", target: "TUR", kind: "land", lengthKm: 899 },
+  { source: "TJK", target: "UZB", kind: "land", lengthKm: 1312 },
+  { source: "TZA", target: "UGA", kind: "land", lengthKm: 391 },
+  { source: "TZA", target: "ZMB", kind: "land", lengthKm: 353 },
+  { source: "ZMB", target: "ZWE", kind: "land", lengthKm: 763 }
 ];
+
+// Borders that no longer exist, each ending on its validTo date; the timeline merges them in
+export const historicalBorders: Border[] = [
+  // Sudan before South Sudan's independence
+  { source: "KEN", target: "SDN", kind: "land", lengthKm: 232, disputed: true, validTo: "2011-07-09" },
+  { source: "SDN", target: "UGA", kind: "land", lengthKm: 435, validTo: "2011-07-09" },
+  // Yugoslavia, shrinking as its republics became independent
+  { source: "ALB", target: "YUG", kind: "land", validTo: "1992-04-27" },
+  { source: "AUT", target: "YUG", kind: "land", validTo: "1991-06-25" },
+  { source: "BGR", target: "YUG", kind: "land", validTo: "1992-04-27" },
+  { source: "BIH", target: "YUG", kind: "land", validFrom: "1992-03-03", validTo: "1992-04-27" },
+  { source: "GRC", target: "YUG", kind: "land", validTo: "1991-09-08" },
+  { source: "HRV", target: "YUG", kind: "land", validFrom: "1991-06-25", validTo: "1992-04-27" },
+  { source: "HUN", target: "YUG", kind: "land", validTo: "1992-04-27" },
+  { source: "ITA", target: "YUG", kind: "land", validTo: "1991-06-25" },
+  { source: "MKD", target: "YUG", kind: "land", validFrom: "1991-09-08", validTo: "1992-04-27" },
+  { source: "ROU", target: "YUG", kind: "land", validTo: "1992-04-27" },
+  // Serbia and Montenegro until Montenegro's independence
+  { source: "ALB", target: "SCG", kind: "land", validFrom: "1992-04-27", validTo: "2006-06-03" },
+  { source: "BGR", target: "SCG", kind: "land", validFrom: "1992-04-27", validTo: "2006-06-03" },
+  { source: "BIH", target: "SCG", kind: "land", validFrom: "1992-04-27", validTo: "2006-06-03" },
+  { source: "HRV", target: "SCG", kind: "land", validFrom: "1992-04-27", validTo: "2006-06-03" },
+  { source: "HUN", target: "SCG", kind: "land", validFrom: "1992-04-27", validTo: "2006-06-03" },
+  { source: "MKD", target: "SCG", kind: "land", validFrom: "1992-04-27", validTo: "2006-06-03" },
+  { source: "ROU", target: "SCG", kind: "land", validFrom: "1992-04-27", validTo: "2006-06-03" },
+  // Serbia bordered Albania until Kosovo declared independence
+  { source: "ALB", target: "SRB", kind: "land", validFrom: "2006-06-03", validTo: "2008-02-17" }
+];
+
+// Plain country pairs of today's borders, for consumers that only need connectivity
+export const adjacencyList: [CountryId, CountryId][] = borders.map(
+  border => [border.source, border.target]
+);
@@ -0,0 +1,8 @@
+import { Border } from "./countries";
+
+// Fixed crossings between countries without a land border, on top of the causeways in countriesData
+export const crossings: Border[] = [
+  { source: "DNK", target: "SWE", kind: "bridge" },
+  { source: "FRA", target: "GBR", kind: "tunnel" },
+  { source: "HKG", target: "MAC", kind: "bridge" },
+];
@@ -0,0 +1,54 @@
+import { Border, BorderKind } from "./countries";
+import { borders, historicalBorders } from "./countriesData";
+import { crossings } from "./crossingsData";
+import { maritimeBoundaries } from "./maritimeData";
+
+// Ways of counting which countries border each other
+export type DatasetId = "standard" | "land" | "crossings" | "maritime";
+
+export interface Dataset {
+  label: string;
+  description: string;
+  // Borders as they are today
+  borders: Border[];
+  // Borders that no longer exist, for the timeline
+  historicalBorders: Border[];
+}
+
+const ofKinds = (list: Border[], kinds: BorderKind[]) => list.filter(border => kinds.includes(border.kind));
+
+export const datasets: Record<DatasetId, Dataset> = {
+  standard: {
+    label: "Standard",
+    description: "Land borders plus the best-known causeways and maritime links",
+    borders,
+    historicalBorders,
+  },
+  land: {
+    label: "Land only",
+    description: "Strict land borders, including those of exclaves and overseas territories",
+    borders: ofKinds(borders, ["land"]),
+    historicalBorders: ofKinds(historicalBorders, ["land"]),
+  },
+  crossings: {
+    label: "Land and crossings",
+    description: "Land borders plus bridges, causeways and tunnels",
+    borders: [...ofKinds(borders, ["land", "bridge", "causeway", "tunnel"]), ...crossings],
+    historicalBorders: ofKinds(historicalBorders, ["land", "bridge", "causeway", "tunnel"]),
+  },
+  maritime: {
+    label: "Land and maritime",
+    description: "Land borders plus agreed maritime boundaries",
+    borders: [...ofKinds(borders, ["land", "maritime"]), ...maritimeBoundaries],
+    historicalBorders: ofKinds(historicalBorders, ["land", "maritime"]),
+  },
+};
+
+export const defaultDatasetId: DatasetId = "standard";
+
+// Today's borders followed by the former ones; the timeline picks those of the chosen year
+export const allBordersOf = (id: DatasetId) => [...datasets[id].borders, ...datasets[id].historicalBorders];
+
+// Every country a dataset mentions, including those that only appear in its former borders
+export const datasetCountryIds = (id: DatasetId) =>
+  new Set(allBordersOf(id).flatMap(border => [border.source, border.target]));
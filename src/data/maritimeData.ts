@@ -0,0 +1,49 @@
+import { Border } from "./countries";
+
+// Agreed maritime boundaries between countries without a land border, on top of those in countriesData
+export const maritimeBoundaries: Border[] = [
+  { source: "AUS", target: "IDN", kind: "maritime" },
+  { source: "AUS", target: "PNG", kind: "maritime" },
+  { source: "AUS", target: "TLS", kind: "maritime" },
+  { source: "BEL", target: "GBR", kind: "maritime" },
+  { source: "BHR", target: "IRN", kind: "maritime" },
+  { source: "BHR", target: "QAT", kind: "maritime" },
+  { source: "COL", target: "DOM", kind: "maritime" },
+  { source: "COL", target: "HTI", kind: "maritime" },
+  { source: "COL", target: "HND", kind: "maritime" },
+  { source: "COL", target: "JAM", kind: "maritime" },
+  { source: "CUB", target: "HTI", kind: "maritime" },
+  { source: "CUB", target: "JAM", kind: "maritime" },
+  { source: "CUB", target: "MEX", kind: "maritime" },
+  { source: "CUB", target: "USA", kind: "maritime" },
+  { source: "CYP", target: "EGY", kind: "maritime" },
+  { source: "CYP", target: "ISR", kind: "maritime" },
+  { source: "CYP", target: "LBN", kind: "maritime" },
+  { source: "DNK", target: "NOR", kind: "maritime" },
+  { source: "DNK", target: "SWE", kind: "maritime" },
+  { source: "DOM", target: "VEN", kind: "maritime" },
+  { source: "EGY", target: "SAU", kind: "maritime" },
+  { source: "ERI", target: "YEM", kind: "maritime" },
+  { source: "EST", target: "FIN", kind: "maritime" },
+  { source: "FRA", target: "GBR", kind: "maritime" },
+  { source: "GBR", target: "NLD", kind: "maritime" },
+  { source: "GBR", target: "NOR", kind: "maritime" },
+  { source: "GRC", target: "ITA", kind: "maritime" },
+  { source: "IDN", target: "IND", kind: "maritime" },
+  { source: "IDN", target: "PHL", kind: "maritime" },
+  { source: "IDN", target: "SGP", kind: "maritime" },
+  { source: "IDN", target: "THA", kind: "maritime" },
+  { source: "IDN", target: "VNM", kind: "maritime" },
+  { source: "IND", target: "THA", kind: "maritime" },
+  { source: "IRN", target: "OMN", kind: "maritime" },
+  { source: "IRN", target: "QAT", kind: "maritime" },
+  { source: "IRN", target: "SAU", kind: "maritime" },
+  { source: "ITA", target: "ALB", kind: "maritime" },
+  { source: "ITA", target: "ESP", kind: "maritime" },
+  { source: "ITA", target: "HRV", kind: "maritime" },
+  { source: "ITA", target: "MLT", kind: "maritime" },
+  { source: "ITA", target: "TUN", kind: "maritime" },
+  { source: "JPN", target: "KOR", kind: "maritime" },
+  { source: "LBY", target: "MLT", kind: "maritime" },
+  { source: "ARE", target: "QAT", kind: "maritime" },
+];
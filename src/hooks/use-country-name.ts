@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { CountryId, getCountryName } from '@/data/countries';
+
+export type NameOf = (id: CountryId) => string;
+
+// Display names for the network on screen; an imported network provides its own labels
+export const CountryNameContext = createContext<NameOf>(getCountryName);
+
+export const useCountryName = () => useContext(CountryNameContext);
+
+// Sort comparator for ids by their display name
+export const byName = (nameOf: NameOf) => (a: CountryId, b: CountryId) => nameOf(a).localeCompare(nameOf(b));
@@ -0,0 +1,82 @@
+import { RefObject, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import type { CountryGraphHandle } from '@/components/CountryGraph';
+import { Border } from '@/data/countries';
+import { CSS_DPI, MM_PER_INCH, PageSize, downloadBlob, pageSizes, snapshotToSvg, svgBlob, svgToPng } from '@/lib/export';
+import { GraphDocumentOptions, GraphFormat, buildGraphDocument, graphFormats } from '@/lib/formats';
+
+// Share of the printed page's height left to the graph; the rest holds the title and legend
+const PRINT_GRAPH_SHARE = 0.7;
+// Page margin set by PrintLayout's @page rule
+const PRINT_MARGIN_MM = 12;
+
+export interface GraphExportOptions {
+  // Exported files are named after the network on screen
+  fileStem: string;
+  borders: Border[];
+  // Everything the data formats write besides the current layout positions
+  document: Omit<GraphDocumentOptions, "positions">;
+}
+
+export interface PrintJob {
+  svg: string;
+  pageSize: PageSize;
+}
+
+// Image, data and print exports of the graph; `printJob` is set while the print layout has to be in the DOM
+export function useGraphExport(graphRef: RefObject<CountryGraphHandle>, { fileStem, borders, document }: GraphExportOptions) {
+  const [printJob, setPrintJob] = useState<PrintJob | null>(null);
+
+  const exportSvg = () => {
+    const snapshot = graphRef.current?.getSnapshot();
+    if (!snapshot) return;
+    downloadBlob(svgBlob(snapshotToSvg(snapshot)), `${fileStem}.svg`);
+  };
+
+  const exportPng = async (dpi: number) => {
+    const snapshot = graphRef.current?.getSnapshot();
+    if (!snapshot) return;
+    try {
+      const png = await svgToPng(snapshotToSvg(snapshot), snapshot.width, snapshot.height, dpi);
+      downloadBlob(png, `${fileStem}-${dpi}dpi.png`);
+    } catch (error) {
+      toast.error(`Could not export PNG: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const exportData = (format: GraphFormat) => {
+    const positions = new Map(
+      (graphRef.current?.getSnapshot()?.scene.nodes ?? [])
+        .filter(node => node.x !== undefined)
+        .map(node => [node.id, { x: node.x, y: node.y }])
+    );
+    const graphDocument = buildGraphDocument(borders, { ...document, positions });
+    const { extension, mimeType, serialize } = graphFormats[format];
+    downloadBlob(new Blob([serialize(graphDocument)], { type: mimeType }), `${fileStem}.${extension}`);
+  };
+
+  // The whole graph is fitted to the printable area of a landscape page
+  const print = (pageSize: PageSize) => {
+    const snapshot = graphRef.current?.getSnapshot();
+    if (!snapshot) return;
+    const { width, height } = pageSizes[pageSize];
+    const toPixels = (mm: number) => ((mm - 2 * PRINT_MARGIN_MM) / MM_PER_INCH) * CSS_DPI;
+    const svg = snapshotToSvg(snapshot, {
+      fit: true,
+      width: toPixels(width),
+      height: toPixels(height) * PRINT_GRAPH_SHARE,
+    });
+    setPrintJob({ svg, pageSize });
+  };
+
+  // Print once the layout is in the DOM, and drop it again afterwards
+  useEffect(() => {
+    if (!printJob) return;
+    const done = () => setPrintJob(null);
+    window.addEventListener("afterprint", done);
+    window.print();
+    return () => window.removeEventListener("afterprint", done);
+  }, [printJob]);
+
+  return { exportSvg, exportPng, exportData, print, printJob };
+}
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+
+// Only drags that carry files turn the graph into a drop target
+const carriesFiles = (event: React.DragEvent) => event.dataTransfer.types.includes("Files");
+
+// State of the import dialog, and handlers that let a network file be dropped anywhere on the graph
+export function useGraphImport() {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [draggingFile, setDraggingFile] = useState(false);
+
+  // Opens the dialog, with a file to read right away or empty for the file picker
+  const openImport = (file: File | null) => {
+    setFile(file);
+    setOpen(true);
+  };
+
+  const dropTarget = {
+    onDragOver: (event: React.DragEvent) => {
+      if (!carriesFiles(event)) return;
+      event.preventDefault();
+      setDraggingFile(true);
+    },
+    onDragLeave: (event: React.DragEvent) => {
+      // Moving onto a child fires a leave on the parent too
+      if (!event.currentTarget.contains(event.relatedTarget as Node)) setDraggingFile(false);
+    },
+    onDrop: (event: React.DragEvent) => {
+      if (!carriesFiles(event)) return;
+      event.preventDefault();
+      setDraggingFile(false);
+      const dropped = event.dataTransfer.files[0];
+      if (dropped) openImport(dropped);
+    },
+  };
+
+  return {
+    dialog: { open, onOpenChange: setOpen, file, onFileChange: setFile },
+    openImport,
+    draggingFile,
+    dropTarget,
+  };
+}
@@ -0,0 +1,29 @@
+import { useMemo, useState } from 'react';
+import { Border, CountryId, getCountryName } from '@/data/countries';
+import { DatasetId, allBordersOf } from '@/data/datasets';
+import { NameOf } from '@/hooks/use-country-name';
+import { validateBorders } from '@/lib/validation';
+
+export interface ImportedNetwork {
+  name: string;
+  borders: Border[];
+  // Labels the file gives its nodes
+  names: Map<CountryId, string>;
+}
+
+// The network on screen: a built-in dataset, or an imported network that replaces it until it is closed again
+export function useNetwork(initialDataset: DatasetId) {
+  const [datasetId, setDatasetId] = useState(initialDataset);
+  const [network, setNetwork] = useState<ImportedNetwork | null>(null);
+  // Today's borders plus the former ones; the timeline picks those of the chosen year
+  const borders = useMemo(() => network?.borders ?? allBordersOf(datasetId), [network, datasetId]);
+  // An imported network is labeled by its own file, even where its ids look like country codes
+  const nameOf = useMemo<NameOf>(
+    () => (network ? id => network.names.get(id) ?? id : getCountryName),
+    [network]
+  );
+  // Imported networks are not about countries, so the registry checks only apply to the built-in data
+  const validationReport = useMemo(() => (network ? null : validateBorders(borders)), [network, borders]);
+
+  return { datasetId, setDatasetId, network, setNetwork, borders, nameOf, validationReport };
+}
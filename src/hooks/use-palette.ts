@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import { GraphPalette } from '@/lib/colors';
+
+export type PaletteState = {
+  palette: GraphPalette;
+  setPalette: (palette: GraphPalette) => void;
+};
+
+const initialState: PaletteState = {
+  palette: "default",
+  setPalette: () => null,
+};
+
+// Provided by PaletteProvider, which keeps the choice in local storage
+export const PaletteContext = createContext<PaletteState>(initialState);
+
+export const usePalette = () => {
+  const context = useContext(PaletteContext);
+
+  if (context === undefined)
+    throw new Error("usePalette must be used within a PaletteProvider");
+
+  return context;
+};
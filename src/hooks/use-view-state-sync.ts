@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { datasetCountryIds } from '@/data/datasets';
+import { ViewRoute, ViewState, parseViewRoute, parseViewState, viewRoutePath, viewStateToParams } from '@/lib/viewState';
+
+// The view the page was opened with. The URL is only read once; afterwards the app state is the source of truth.
+export function useInitialViewState() {
+  const routeParams = useParams();
+  const [searchParams] = useSearchParams();
+  const [initial] = useState(() => {
+    const view = parseViewState(searchParams);
+    return { route: parseViewRoute(routeParams, datasetCountryIds(view.dataset)), view };
+  });
+  return initial;
+}
+
+// Keep the URL in sync with the view; replacing the entry keeps zooming and toggling out of the history
+export function useViewStateSync(route: ViewRoute, view: ViewState) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const query = viewStateToParams(view).toString();
+  const url = viewRoutePath(route) + (query ? `?${query}` : "");
+
+  useEffect(() => {
+    if (url !== location.pathname + location.search) navigate(url, { replace: true });
+  }, [url, location, navigate]);
+}
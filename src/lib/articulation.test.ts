@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Border } from '@/data/countries';
+import { componentsWithout, findCuts } from './articulation';
+
+const land = (source: string, target: string): Border => ({ source, target, kind: "land" });
+
+const triangle = (a: string, b: string, c: string) => [land(a, b), land(b, c), land(c, a)];
+
+// Two triangles joined by a single border between C and D
+const barbell = [...triangle("A", "B", "C"), ...triangle("D", "E", "F"), land("C", "D")];
+
+const sortedPairs = (pairs: [string, string][]) => pairs.map(pair => [...pair].sort()).sort();
+
+describe("findCuts", () => {
+  it("finds the cut countries and the bridge of a barbell", () => {
+    const { articulationPoints, bridges } = findCuts(barbell);
+    expect(articulationPoints).toEqual(["C", "D"]);
+    expect(sortedPairs(bridges)).toEqual([["C", "D"]]);
+  });
+
+  it("finds nothing in a cycle", () => {
+    expect(findCuts([...triangle("A", "B", "C")])).toEqual({ articulationPoints: [], bridges: [] });
+  });
+
+  it("treats every border of a path as a bridge and every inner country as a cut", () => {
+    const { articulationPoints, bridges } = findCuts([land("A", "B"), land("B", "C"), land("C", "D")]);
+    expect(articulationPoints).toEqual(["B", "C"]);
+    expect(sortedPairs(bridges)).toEqual([["A", "B"], ["B", "C"], ["C", "D"]]);
+  });
+
+  it("does not call a pair with parallel borders a bridge", () => {
+    const borders = [land("A", "B"), { ...land("A", "B"), territory: "Exclave" }, land("B", "C")];
+    expect(sortedPairs(findCuts(borders).bridges)).toEqual([["B", "C"]]);
+  });
+
+  it("finds a root that joins several branches", () => {
+    expect(findCuts([land("A", "B"), land("A", "C")]).articulationPoints).toEqual(["A"]);
+  });
+});
+
+describe("componentsWithout", () => {
+  it("splits the barbell when one end of the bridge is removed", () => {
+    const { components } = componentsWithout(barbell, "C");
+    expect(components.map(component => [...component.countryIds].sort())).toEqual([["D", "E", "F"], ["A", "B"]]);
+  });
+
+  it("keeps a cycle in one piece", () => {
+    expect(componentsWithout(triangle("A", "B", "C"), "A").components).toHaveLength(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { Border, CountryId } from '@/data/countries';
+import { AdjacencyMap, buildAdjacency } from './graph';
+import { ComponentAnalysis, findConnectedComponents } from './connectivity';
+
+export interface CutAnalysis {
+  // Countries whose removal splits their component
+  articulationPoints: CountryId[];
+  // Country pairs whose only shared border holds their component together
+  bridges: [CountryId, CountryId][];
+}
+
+// Tarjan's low-link search, iterative so large imported networks cannot overflow the stack
+export function findCuts(source: Border[] | AdjacencyMap): CutAnalysis {
+  const adjacency = source instanceof Map ? source : buildAdjacency(source);
+  const discovery = new Map<CountryId, number>();
+  const low = new Map<CountryId, number>();
+  const articulation = new Set<CountryId>();
+  const bridges: [CountryId, CountryId][] = [];
+  let time = 0;
+
+  adjacency.forEach((_, root) => {
+    if (discovery.has(root)) return;
+
+    discovery.set(root, time);
+    low.set(root, time++);
+    let rootChildren = 0;
+    const stack = [{ id: root, parent: null as CountryId | null, neighbors: Array.from(adjacency.get(root).keys()), next: 0 }];
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+
+      if (frame.next < frame.neighbors.length) {
+        const neighbor = frame.neighbors[frame.next++];
+        if (neighbor === frame.parent) continue;
+
+        if (discovery.has(neighbor)) {
+          low.set(frame.id, Math.min(low.get(frame.id), discovery.get(neighbor)));
+        } else {
+          discovery.set(neighbor, time);
+          low.set(neighbor, time++);
+          if (frame.id === root) rootChildren++;
+          stack.push({ id: neighbor, parent: frame.id, neighbors: Array.from(adjacency.get(neighbor).keys()), next: 0 });
+        }
+        continue;
+      }
+
+      stack.pop();
+      const parent = frame.parent;
+      if (parent === null) continue;
+
+      low.set(parent, Math.min(low.get(parent), low.get(frame.id)));
+      if (parent !== root && low.get(frame.id) >= discovery.get(parent)) articulation.add(parent);
+      // Parallel borders between the same pair can never be a bridge
+      if (low.get(frame.id) > discovery.get(parent) && adjacency.get(parent).get(frame.id).length === 1) {
+        bridges.push([parent, frame.id]);
+      }
+    }
+
+    if (rootChildren > 1) articulation.add(root);
+  });
+
+  return { articulationPoints: Array.from(articulation).sort(), bridges };
+}
+
+// Components left over after taking one country out of the network
+export function componentsWithout(source: Border[] | AdjacencyMap, removed: CountryId): ComponentAnalysis {
+  const adjacency = source instanceof Map ? source : buildAdjacency(source);
+  const remaining: AdjacencyMap = new Map();
+
+  adjacency.forEach((neighbors, id) => {
+    if (id === removed) return;
+    remaining.set(id, new Map(Array.from(neighbors).filter(([neighbor]) => neighbor !== removed)));
+  });
+
+  return findConnectedComponents(remaining);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Border } from '@/data/countries';
+import { buildAdjacency } from './graph';
+import {
+  betweennessCentrality,
+  closenessCentrality,
+  computeCentrality,
+  degreeCentrality,
+  normalizeScores,
+  rankByScore,
+} from './centrality';
+
+const land = (source: string, target: string): Border => ({ source, target, kind: "land" });
+
+// A – B – C – D – E
+const path = buildAdjacency([land("A", "B"), land("B", "C"), land("C", "D"), land("D", "E")]);
+
+// C borders everyone else, who border nobody but C
+const star = buildAdjacency(["A", "B", "D", "E"].map(id => land("C", id)));
+
+describe("centrality", () => {
+  it("counts distinct neighbors as degree", () => {
+    const adjacency = buildAdjacency([land("A", "B"), { ...land("A", "B"), territory: "Exclave" }, land("B", "C")]);
+    expect(Object.fromEntries(degreeCentrality(adjacency))).toEqual({ A: 1, B: 2, C: 1 });
+  });
+
+  it("counts the shortest paths through each country of a path graph", () => {
+    // Each inner country lies on (countries to its left) × (countries to its right) paths
+    expect(Object.fromEntries(betweennessCentrality(path))).toEqual({ A: 0, B: 3, C: 4, D: 3, E: 0 });
+  });
+
+  it("splits betweenness between equally short paths", () => {
+    const square = buildAdjacency([land("A", "B"), land("B", "C"), land("C", "D"), land("D", "A")]);
+    expect(Object.fromEntries(betweennessCentrality(square))).toEqual({ A: 0.5, B: 0.5, C: 0.5, D: 0.5 });
+  });
+
+  it("ranks the middle of a path closest to everyone", () => {
+    const closeness = closenessCentrality(path);
+    expect(closeness.get("C")).toBeCloseTo(4 / 6);
+    expect(closeness.get("A")).toBeCloseTo(4 / 10);
+    expect(rankByScore(closeness)).toEqual(["C", "B", "D", "A", "E"]);
+  });
+
+  it("puts the hub of a star first by every metric", () => {
+    const scores = computeCentrality(star);
+    Object.values(scores).forEach(metric => expect(rankByScore(metric)[0]).toBe("C"));
+    expect(scores.pagerank.get("A")).toBeCloseTo(scores.pagerank.get("E"));
+    expect(Array.from(scores.pagerank.values()).reduce((sum, score) => sum + score, 0)).toBeCloseTo(1);
+  });
+
+  it("scales scores onto 0..1", () => {
+    const normalized = normalizeScores(betweennessCentrality(path));
+    expect(normalized.get("C")).toBe(1);
+    expect(normalized.get("B")).toBe(0.75);
+    expect(normalizeScores(new Map([["A", 0]])).get("A")).toBe(0);
+  });
+});
@@ -0,0 +1,180 @@
+import { Border, CountryId } from '@/data/countries';
+import { AdjacencyMap, buildAdjacency } from './graph';
+
+export type CentralityMetric = "degree" | "betweenness" | "closeness" | "eigenvector" | "pagerank";
+
+export const centralityMetricLabels: Record<CentralityMetric, string> = {
+  degree: "Degree",
+  betweenness: "Betweenness",
+  closeness: "Closeness",
+  eigenvector: "Eigenvector",
+  pagerank: "PageRank",
+};
+
+export type CentralityScores = Record<CentralityMetric, Map<CountryId, number>>;
+
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-9;
+const PAGERANK_DAMPING = 0.85;
+
+// Number of distinct neighboring countries
+export function degreeCentrality(adjacency: AdjacencyMap) {
+  const scores = new Map<CountryId, number>();
+  adjacency.forEach((neighbors, id) => scores.set(id, neighbors.size));
+  return scores;
+}
+
+// Share of shortest paths passing through each country (Brandes, unweighted)
+export function betweennessCentrality(adjacency: AdjacencyMap) {
+  const scores = new Map<CountryId, number>();
+  adjacency.forEach((_, id) => scores.set(id, 0));
+
+  adjacency.forEach((_, source) => {
+    const stack: CountryId[] = [];
+    const predecessors = new Map<CountryId, CountryId[]>();
+    const pathCount = new Map<CountryId, number>([[source, 1]]);
+    const distance = new Map<CountryId, number>([[source, 0]]);
+    const queue = [source];
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      stack.push(current);
+
+      adjacency.get(current).forEach((_, neighbor) => {
+        if (!distance.has(neighbor)) {
+          distance.set(neighbor, distance.get(current) + 1);
+          queue.push(neighbor);
+        }
+        if (distance.get(neighbor) === distance.get(current) + 1) {
+          pathCount.set(neighbor, (pathCount.get(neighbor) ?? 0) + pathCount.get(current));
+          if (!predecessors.has(neighbor)) predecessors.set(neighbor, []);
+          predecessors.get(neighbor).push(current);
+        }
+      });
+    }
+
+    const dependency = new Map<CountryId, number>();
+    while (stack.length > 0) {
+      const current = stack.pop();
+      predecessors.get(current)?.forEach(previous => {
+        const share = (pathCount.get(previous) / pathCount.get(current)) * (1 + (dependency.get(current) ?? 0));
+        dependency.set(previous, (dependency.get(previous) ?? 0) + share);
+      });
+      if (current !== source) scores.set(current, scores.get(current) + (dependency.get(current) ?? 0));
+    }
+  });
+
+  // Every path was counted once from each end
+  scores.forEach((score, id) => scores.set(id, score / 2));
+  return scores;
+}
+
+// Inverse average distance to reachable countries, scaled down for small components
+// (Wasserman–Faust), so islands do not outrank well connected mainland countries
+export function closenessCentrality(adjacency: AdjacencyMap) {
+  const scores = new Map<CountryId, number>();
+  const total = adjacency.size;
+
+  adjacency.forEach((_, source) => {
+    const distance = new Map<CountryId, number>([[source, 0]]);
+    const queue = [source];
+    let sum = 0;
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      adjacency.get(current).forEach((_, neighbor) => {
+        if (distance.has(neighbor)) return;
+        distance.set(neighbor, distance.get(current) + 1);
+        sum += distance.get(neighbor);
+        queue.push(neighbor);
+      });
+    }
+
+    const reachable = distance.size - 1;
+    scores.set(source, sum > 0 && total > 1 ? (reachable / sum) * (reachable / (total - 1)) : 0);
+  });
+
+  return scores;
+}
+
+// Power iteration on the adjacency matrix; the identity shift keeps
+// bipartite parts of the network from oscillating
+export function eigenvectorCentrality(adjacency: AdjacencyMap) {
+  const ids = Array.from(adjacency.keys());
+  let scores = new Map(ids.map(id => [id, 1 / ids.length]));
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = new Map<CountryId, number>();
+    ids.forEach(id => {
+      let sum = scores.get(id);
+      adjacency.get(id).forEach((_, neighbor) => { sum += scores.get(neighbor); });
+      next.set(id, sum);
+    });
+
+    const norm = Math.sqrt(Array.from(next.values()).reduce((acc, value) => acc + value * value, 0)) || 1;
+    let change = 0;
+    next.forEach((value, id) => {
+      next.set(id, value / norm);
+      change += Math.abs(value / norm - scores.get(id));
+    });
+
+    scores = next;
+    if (change < TOLERANCE * ids.length) break;
+  }
+
+  return scores;
+}
+
+// Random-surfer importance with the usual 0.85 damping
+export function pageRank(adjacency: AdjacencyMap, damping = PAGERANK_DAMPING) {
+  const ids = Array.from(adjacency.keys());
+  const count = ids.length;
+  let scores = new Map(ids.map(id => [id, 1 / count]));
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Countries without borders spread their rank evenly
+    const dangling = ids
+      .filter(id => adjacency.get(id).size === 0)
+      .reduce((acc, id) => acc + scores.get(id), 0);
+    const next = new Map(ids.map(id => [id, (1 - damping) / count + (damping * dangling) / count]));
+
+    ids.forEach(id => {
+      const neighbors = adjacency.get(id);
+      const share = (damping * scores.get(id)) / neighbors.size;
+      neighbors.forEach((_, neighbor) => next.set(neighbor, next.get(neighbor) + share));
+    });
+
+    let change = 0;
+    next.forEach((value, id) => { change += Math.abs(value - scores.get(id)); });
+    scores = next;
+    if (change < TOLERANCE * count) break;
+  }
+
+  return scores;
+}
+
+export function computeCentrality(source: Border[] | AdjacencyMap): CentralityScores {
+  const adjacency = source instanceof Map ? source : buildAdjacency(source);
+  return {
+    degree: degreeCentrality(adjacency),
+    betweenness: betweennessCentrality(adjacency),
+    closeness: closenessCentrality(adjacency),
+    eigenvector: eigenvectorCentrality(adjacency),
+    pagerank: pageRank(adjacency),
+  };
+}
+
+// Scores divided by the largest one, so every metric maps onto 0..1
+export function normalizeScores(scores: Map<CountryId, number>) {
+  const max = Math.max(0, ...scores.values());
+  const normalized = new Map<CountryId, number>();
+  scores.forEach((score, id) => normalized.set(id, max > 0 ? score / max : 0));
+  return normalized;
+}
+
+// Countries ordered from the highest to the lowest score
+export function rankByScore(scores: Map<CountryId, number>) {
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([id]) => id);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Border } from '@/data/countries';
+import { ColoringResult, ColoringStrategy, coloringAfterSteps, colorMap } from './coloring';
+
+const land = (source: string, target: string): Border => ({ source, target, kind: "land" });
+
+const cycle = (ids: string[]) => ids.map((id, index) => land(id, ids[(index + 1) % ids.length]));
+
+const complete = (ids: string[]) => ids.flatMap((a, index) => ids.slice(index + 1).map(b => land(a, b)));
+
+// Two sides of three countries, every country bordering the whole other side
+const bipartite = complete(["A1", "A2", "A3", "B1", "B2", "B3"]).filter(({ source, target }) => source[0] !== target[0]);
+
+const expectProper = (result: ColoringResult, borders: Border[]) => {
+  borders.forEach(({ source, target }) => {
+    expect(result.colorOf.has(source)).toBe(true);
+    expect(result.colorOf.get(source)).not.toBe(result.colorOf.get(target));
+  });
+};
+
+const strategies: ColoringStrategy[] = ["greedy", "dsatur", "exact"];
+
+describe("colorMap", () => {
+  it.each(strategies)("colors every graph properly with %s", strategy => {
+    [cycle(["A", "B", "C", "D", "E"]), complete(["A", "B", "C", "D"]), bipartite].forEach(borders => {
+      expectProper(colorMap(borders, { strategy }), borders);
+    });
+  });
+
+  it.each([
+    ["an odd cycle", cycle(["A", "B", "C", "D", "E"]), 3],
+    ["K4", complete(["A", "B", "C", "D"]), 4],
+    ["a bipartite graph", bipartite, 2],
+    ["an even cycle", cycle(["A", "B", "C", "D"]), 2],
+  ] as const)("proves the chromatic number of %s", (_, borders, expected) => {
+    strategies.forEach(strategy => {
+      const [component] = colorMap([...borders], { strategy }).components;
+      expect(component.chromaticNumber).toBe(expected);
+      expect(component.proven).toBe(true);
+    });
+  });
+
+  it("reports the colors a heuristic used apart from the chromatic number", () => {
+    // Crown graph: A, C, E, G on one side and B, D, F, H on the other, each bordering all but its partner.
+    // Every country has three neighbors, so Welsh–Powell goes alphabetically and needs four colors.
+    const ids = ["A", "B", "C", "D", "E", "F", "G", "H"];
+    const crown = complete(ids).filter(({ source, target }) => {
+      const [a, b] = [ids.indexOf(source), ids.indexOf(target)];
+      return a % 2 !== b % 2 && Math.floor(a / 2) !== Math.floor(b / 2);
+    });
+    const greedy = colorMap(crown, { strategy: "greedy" });
+    expectProper(greedy, crown);
+    expect(greedy.components[0].colorsUsed).toBe(4);
+    expect(greedy.components[0].chromaticNumber).toBe(2);
+    expect(colorMap(crown, { strategy: "exact" }).colorCount).toBe(2);
+  });
+
+  it("reports an upper bound when the search runs out of budget", () => {
+    const [component] = colorMap(cycle(["A", "B", "C", "D", "E"]), { strategy: "exact", maxSteps: 1 }).components;
+    expect(component.proven).toBe(false);
+    expect(component.chromaticNumber).toBe(3);
+  });
+
+  it("colors each component on its own", () => {
+    const borders = [...complete(["A", "B", "C"]), land("X", "Y")];
+    const result = colorMap(borders);
+    expect(result.components.map(component => component.chromaticNumber)).toEqual([3, 2]);
+    expect(result.colorCount).toBe(3);
+  });
+});
+
+describe("coloringAfterSteps", () => {
+  it("replays the solver up to a step, including backtracking", () => {
+    const borders = complete(["A", "B", "C", "D"]);
+    const { steps, colorOf } = colorMap(borders, { strategy: "exact" });
+    expect(coloringAfterSteps(steps, 0).size).toBe(0);
+    expect(coloringAfterSteps(steps, steps.length)).toEqual(colorOf);
+    expect(coloringAfterSteps([{ countryId: "A", color: 0 }, { countryId: "A", color: null }], 2).size).toBe(0);
+  });
+});
@@ -0,0 +1,258 @@
+import { Border, CountryId } from '@/data/countries';
+import { AdjacencyMap, buildAdjacency } from './graph';
+import { findConnectedComponents } from './connectivity';
+
+export type ColoringStrategy = "greedy" | "dsatur" | "exact";
+
+export const coloringStrategyLabels: Record<ColoringStrategy, string> = {
+  greedy: "Greedy (largest first)",
+  dsatur: "DSatur",
+  exact: "Exact backtracking",
+};
+
+// One move of a solver; `color` is null when backtracking takes a color away again
+export interface ColoringStep {
+  countryId: CountryId;
+  color: number | null;
+}
+
+export interface ComponentColoring {
+  // Same order as findConnectedComponents, 0 is the largest component
+  index: number;
+  countryIds: CountryId[];
+  hub: CountryId;
+  // Colors the chosen strategy ended up using
+  colorsUsed: number;
+  // Fewest colors the component can get, found by the exact search whatever the strategy
+  chromaticNumber: number;
+  // False when the exact search ran out of budget and chromaticNumber is only an upper bound
+  proven: boolean;
+}
+
+export interface ColoringResult {
+  strategy: ColoringStrategy;
+  colorOf: Map<CountryId, number>;
+  colorCount: number;
+  // Every assignment in solving order, component after component
+  steps: ColoringStep[];
+  components: ComponentColoring[];
+}
+
+export interface ColoringOptions {
+  strategy?: ColoringStrategy;
+  // Assignments the exact search may try per component before giving up
+  maxSteps?: number;
+  // Countries the exact search may look at per component; every assignment scans the whole component,
+  // so larger components get proportionally fewer steps
+  maxWork?: number;
+}
+
+const DEFAULT_MAX_STEPS = 200_000;
+const DEFAULT_MAX_WORK = 30_000_000;
+
+// Assignments left to the exact search of one component, shared by its attempts at every k
+interface SearchBudget {
+  remaining: number;
+}
+
+type Neighbors = (id: CountryId) => CountryId[];
+
+interface ComponentSolution {
+  colorOf: Map<CountryId, number>;
+  steps: ColoringStep[];
+}
+
+const smallestFreeColor = (taken: Set<number>) => {
+  let color = 0;
+  while (taken.has(color)) color++;
+  return color;
+};
+
+const colorsIn = (colorOf: Map<CountryId, number>) => new Set(colorOf.values()).size;
+
+// Welsh–Powell: most neighbors first, each country gets the smallest color its neighbors leave free
+function greedyColoring(ids: CountryId[], neighborsOf: Neighbors): ComponentSolution {
+  const colorOf = new Map<CountryId, number>();
+  const steps: ColoringStep[] = [];
+  const order = [...ids].sort((a, b) => neighborsOf(b).length - neighborsOf(a).length || a.localeCompare(b));
+
+  order.forEach(id => {
+    const taken = new Set(neighborsOf(id).filter(n => colorOf.has(n)).map(n => colorOf.get(n)));
+    const color = smallestFreeColor(taken);
+    colorOf.set(id, color);
+    steps.push({ countryId: id, color });
+  });
+
+  return { colorOf, steps };
+}
+
+// Uncolored country with the most distinct neighbor colors, then the most neighbors
+function mostSaturated(uncolored: Set<CountryId>, neighborsOf: Neighbors, colorOf: Map<CountryId, number>) {
+  let best: CountryId | null = null;
+  let bestSaturation = -1;
+
+  uncolored.forEach(id => {
+    const saturation = new Set(neighborsOf(id).filter(n => colorOf.has(n)).map(n => colorOf.get(n))).size;
+    const better = saturation > bestSaturation ||
+      (saturation === bestSaturation && (
+        neighborsOf(id).length > neighborsOf(best).length ||
+        (neighborsOf(id).length === neighborsOf(best).length && id < best)
+      ));
+    if (better) {
+      best = id;
+      bestSaturation = saturation;
+    }
+  });
+
+  return best;
+}
+
+// Brélaz's DSatur: always color the country whose neighbors already use the most colors
+function dsaturColoring(ids: CountryId[], neighborsOf: Neighbors): ComponentSolution {
+  const colorOf = new Map<CountryId, number>();
+  const steps: ColoringStep[] = [];
+  const uncolored = new Set(ids);
+
+  while (uncolored.size > 0) {
+    const id = mostSaturated(uncolored, neighborsOf, colorOf);
+    const taken = new Set(neighborsOf(id).filter(n => colorOf.has(n)).map(n => colorOf.get(n)));
+    const color = smallestFreeColor(taken);
+    colorOf.set(id, color);
+    uncolored.delete(id);
+    steps.push({ countryId: id, color });
+  }
+
+  return { colorOf, steps };
+}
+
+// Size of a clique grown greedily from every country; a lower bound for the chromatic number
+function greedyCliqueSize(ids: CountryId[], neighborsOf: Neighbors) {
+  let largest = ids.length > 0 ? 1 : 0;
+
+  ids.forEach(start => {
+    const clique = [start];
+    const candidates = [...neighborsOf(start)].sort((a, b) => neighborsOf(b).length - neighborsOf(a).length);
+    candidates.forEach(candidate => {
+      const adjacentToAll = clique.every(member => neighborsOf(candidate).includes(member));
+      if (adjacentToAll) clique.push(candidate);
+    });
+    largest = Math.max(largest, clique.length);
+  });
+
+  return largest;
+}
+
+// Backtracking search for a coloring with at most `k` colors, trying DSatur's pick first.
+// Returns null when no such coloring exists, or undefined when the budget ran out.
+function backtrackColoring(
+  ids: CountryId[],
+  neighborsOf: Neighbors,
+  k: number,
+  budget: SearchBudget
+): ComponentSolution | null | undefined {
+  const colorOf = new Map<CountryId, number>();
+  const steps: ColoringStep[] = [];
+  const uncolored = new Set(ids);
+  let budgetExceeded = false;
+
+  const search = (): boolean => {
+    if (uncolored.size === 0) return true;
+    if (budget.remaining <= 0) {
+      budgetExceeded = true;
+      return false;
+    }
+
+    const id = mostSaturated(uncolored, neighborsOf, colorOf);
+    const taken = new Set(neighborsOf(id).filter(n => colorOf.has(n)).map(n => colorOf.get(n)));
+    // A color never used so far is interchangeable with any other unused one, so try only the first
+    const limit = Math.min(k, colorsIn(colorOf) + 1);
+
+    uncolored.delete(id);
+    for (let color = 0; color < limit; color++) {
+      if (taken.has(color)) continue;
+      colorOf.set(id, color);
+      steps.push({ countryId: id, color });
+      budget.remaining--;
+      if (search()) return true;
+      colorOf.delete(id);
+      steps.push({ countryId: id, color: null });
+      if (budgetExceeded) break;
+    }
+    uncolored.add(id);
+    return false;
+  };
+
+  if (search()) return { colorOf, steps };
+  return budgetExceeded ? undefined : null;
+}
+
+// Smallest number of colors for one component, starting from the clique bound and the DSatur bound
+function exactColoring(ids: CountryId[], neighborsOf: Neighbors, budget: SearchBudget) {
+  const heuristic = dsaturColoring(ids, neighborsOf);
+  const upper = colorsIn(heuristic.colorOf);
+  const lower = greedyCliqueSize(ids, neighborsOf);
+
+  // The search at k = upper replays DSatur, so the loop always ends with a solution or a timeout
+  for (let k = lower; k <= upper; k++) {
+    const solution = backtrackColoring(ids, neighborsOf, k, budget);
+    if (solution) return { solution, chromaticNumber: k, proven: true };
+    if (solution === undefined) break;
+  }
+
+  return { solution: heuristic, chromaticNumber: upper, proven: false };
+}
+
+// Color the border network so that no two neighbors share a color, one component at a time.
+// The chosen strategy colors the nodes; the chromatic number always comes from the budgeted exact search.
+export function colorMap(
+  source: Border[] | AdjacencyMap,
+  { strategy = "dsatur", maxSteps = DEFAULT_MAX_STEPS, maxWork = DEFAULT_MAX_WORK }: ColoringOptions = {}
+): ColoringResult {
+  const adjacency = source instanceof Map ? source : buildAdjacency(source);
+  const neighborsOf: Neighbors = id => Array.from(adjacency.get(id)?.keys() ?? []);
+
+  const colorOf = new Map<CountryId, number>();
+  const steps: ColoringStep[] = [];
+
+  const components = findConnectedComponents(adjacency).components.map(({ index, countryIds, hub }) => {
+    const budget = { remaining: Math.min(maxSteps, Math.floor(maxWork / countryIds.length)) };
+    const exact = exactColoring(countryIds, neighborsOf, budget);
+    const solution = strategy === "exact"
+      ? exact.solution
+      : strategy === "greedy"
+        ? greedyColoring(countryIds, neighborsOf)
+        : dsaturColoring(countryIds, neighborsOf);
+    const colorsUsed = colorsIn(solution.colorOf);
+
+    solution.colorOf.forEach((color, id) => colorOf.set(id, color));
+    steps.push(...solution.steps);
+
+    return {
+      index,
+      countryIds,
+      hub,
+      colorsUsed,
+      // A heuristic that beat DSatur gives the tighter bound when the search gave up
+      chromaticNumber: exact.proven ? exact.chromaticNumber : Math.min(exact.chromaticNumber, colorsUsed),
+      proven: exact.proven,
+    };
+  });
+
+  return {
+    strategy,
+    colorOf,
+    colorCount: Math.max(0, ...components.map(component => component.colorsUsed)),
+    steps,
+    components,
+  };
+}
+
+// Partial coloring after replaying the first `count` solver steps
+export function coloringAfterSteps(steps: ColoringStep[], count: number) {
+  const colorOf = new Map<CountryId, number>();
+  steps.slice(0, count).forEach(({ countryId, color }) => {
+    if (color === null) colorOf.delete(countryId);
+    else colorOf.set(countryId, color);
+  });
+  return colorOf;
+}
@@ -0,0 +1,64 @@
+// Categorical colors each palette defines as --graph-category-1 and up, for communities, map coloring and land masses.
+// Four suffice for map coloring; larger indices wrap around.
+export const CATEGORY_COUNT = 8;
+
+// The category color as a CSS value, for swatches outside the graph that follow the palette on their own
+export const categoryVar = (index: number) => `var(--graph-category-${(index % CATEGORY_COUNT) + 1})`;
+
+export const categoryColor = (colors: GraphColors, index: number) =>
+  colors.categories[index % colors.categories.length];
+
+// Presets for the --graph-* variables, selected with a data-palette attribute on the root element
+export type GraphPalette = "default" | "deuteranopia" | "protanopia" | "tritanopia" | "highContrast" | "grayscale";
+
+export const graphPaletteLabels: Record<GraphPalette, string> = {
+  default: "Default",
+  deuteranopia: "Deuteranopia safe",
+  protanopia: "Protanopia safe",
+  tritanopia: "Tritanopia safe",
+  highContrast: "High contrast",
+  grayscale: "Grayscale (print)",
+};
+
+// Colors the graph draws with, taken from the --graph-* custom properties in index.css
+export interface GraphColors {
+  // Metric scale from the lowest to the highest score
+  nodeScale: [string, string, string];
+  nodeStroke: string;
+  label: string;
+  link: string;
+  // Hovered country and highlighted paths
+  active: string;
+  // Cut countries and bridge borders
+  cut: string;
+  categories: string[];
+}
+
+// Light theme values, used when the stylesheet does not define a variable
+const fallbackGraphColors: GraphColors = {
+  nodeScale: ["#67B7D1", "#3E5C76", "#0A2463"],
+  nodeStroke: "#fff",
+  label: "#333",
+  link: "#999",
+  active: "#FF6B6B",
+  cut: "#F59E0B",
+  categories: ["#4E79A7", "#F28E2B", "#E15759", "#76B7B2", "#59A14F", "#EDC948", "#B07AA1", "#FF9DA7"],
+};
+
+export function readGraphColors(element: Element): GraphColors {
+  const style = getComputedStyle(element);
+  const read = (name: string, fallback: string) => style.getPropertyValue(`--graph-${name}`).trim() || fallback;
+  return {
+    nodeScale: [
+      read("node-low", fallbackGraphColors.nodeScale[0]),
+      read("node-mid", fallbackGraphColors.nodeScale[1]),
+      read("node-high", fallbackGraphColors.nodeScale[2]),
+    ],
+    nodeStroke: read("node-stroke", fallbackGraphColors.nodeStroke),
+    label: read("label", fallbackGraphColors.label),
+    link: read("link", fallbackGraphColors.link),
+    active: read("active", fallbackGraphColors.active),
+    cut: read("cut", fallbackGraphColors.cut),
+    categories: fallbackGraphColors.categories.map((fallback, index) => read(`category-${index + 1}`, fallback)),
+  };
+}
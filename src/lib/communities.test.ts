@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { Border } from '@/data/countries';
+import { detectCommunities } from './communities';
+
+const land = (source: string, target: string): Border => ({ source, target, kind: "land" });
+
+const clique = (ids: string[]) => ids.flatMap((a, index) => ids.slice(index + 1).map(b => land(a, b)));
+
+// Two groups of four countries that all border each other, joined by a single border
+const twoCliques = [...clique(["A", "B", "C", "D"]), ...clique(["E", "F", "G", "H"]), land("D", "E")];
+
+describe("detectCommunities", () => {
+  it("finds two obvious cliques", () => {
+    const { communities, communityOf, modularity } = detectCommunities(twoCliques);
+    expect(communities.map(members => [...members].sort())).toEqual([["A", "B", "C", "D"], ["E", "F", "G", "H"]]);
+    expect(communityOf.get("A")).toBe(communityOf.get("D"));
+    expect(communityOf.get("D")).not.toBe(communityOf.get("E"));
+    // 13 borders: each clique holds 6 and has degree 13, so Q = 2 × (6/13 − (13/26)²)
+    expect(modularity).toBeCloseTo(2 * (6 / 13 - 0.25));
+  });
+
+  it("is reproducible", () => {
+    expect(detectCommunities(twoCliques).communities).toEqual(detectCommunities(twoCliques).communities);
+  });
+
+  it("keeps disconnected parts apart", () => {
+    const { communities } = detectCommunities([...clique(["A", "B", "C"]), land("X", "Y")]);
+    expect(communities).toHaveLength(2);
+    expect(communities[0]).toHaveLength(3);
+  });
+
+  it("merges everything at a low resolution", () => {
+    const { communities, resolution } = detectCommunities(twoCliques, { resolution: 0.01 });
+    expect(resolution).toBe(0.01);
+    expect(communities).toHaveLength(1);
+  });
+});
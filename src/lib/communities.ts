@@ -0,0 +1,171 @@
+import { Border, CountryId } from '@/data/countries';
+import { AdjacencyMap, buildAdjacency } from './graph';
+
+export interface CommunityOptions {
+  // Above 1 favors more, smaller communities; below 1 fewer, larger ones
+  resolution?: number;
+}
+
+export interface CommunityResult {
+  // Largest community first
+  communities: CountryId[][];
+  communityOf: Map<CountryId, number>;
+  modularity: number;
+  resolution: number;
+}
+
+// Weighted undirected graph over node indices; a self-loop is stored once under its own index
+type WeightedGraph = Map<number, number>[];
+
+const MAX_PASSES = 100;
+
+const nodeDegree = (graph: WeightedGraph, node: number) => {
+  let degree = 0;
+  graph[node].forEach((weight, neighbor) => { degree += neighbor === node ? 2 * weight : weight; });
+  return degree;
+};
+
+const totalWeight = (graph: WeightedGraph) =>
+  graph.reduce((sum, _, node) => sum + nodeDegree(graph, node), 0) / 2;
+
+// Newman–Girvan modularity of a partition, with the resolution parameter
+function partitionModularity(graph: WeightedGraph, membership: number[], resolution: number) {
+  const m = totalWeight(graph);
+  if (m === 0) return 0;
+
+  const internal = new Map<number, number>();
+  const total = new Map<number, number>();
+
+  graph.forEach((edges, node) => {
+    const community = membership[node];
+    total.set(community, (total.get(community) ?? 0) + nodeDegree(graph, node));
+    edges.forEach((weight, neighbor) => {
+      if (membership[neighbor] !== community || neighbor < node) return;
+      internal.set(community, (internal.get(community) ?? 0) + weight);
+    });
+  });
+
+  let modularity = 0;
+  total.forEach((degreeSum, community) => {
+    modularity += (internal.get(community) ?? 0) / m - resolution * (degreeSum / (2 * m)) ** 2;
+  });
+  return modularity;
+}
+
+// Louvain phase one: move single nodes to the neighboring community with the best gain
+function moveNodes(graph: WeightedGraph, resolution: number) {
+  const m = totalWeight(graph);
+  const membership = graph.map((_, node) => node);
+  if (m === 0) return { membership, moved: false };
+
+  const degrees = graph.map((_, node) => nodeDegree(graph, node));
+  const totals = [...degrees];
+  let moved = false;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+
+    graph.forEach((edges, node) => {
+      const current = membership[node];
+      totals[current] -= degrees[node];
+
+      const linksTo = new Map<number, number>();
+      edges.forEach((weight, neighbor) => {
+        if (neighbor === node) return;
+        const community = membership[neighbor];
+        linksTo.set(community, (linksTo.get(community) ?? 0) + weight);
+      });
+
+      const gain = (community: number) =>
+        (linksTo.get(community) ?? 0) - (resolution * totals[community] * degrees[node]) / (2 * m);
+
+      let best = current;
+      let bestGain = gain(current);
+      linksTo.forEach((_, community) => {
+        const candidate = gain(community);
+        if (candidate > bestGain + 1e-12) {
+          best = community;
+          bestGain = candidate;
+        }
+      });
+
+      totals[best] += degrees[node];
+      if (best !== current) {
+        membership[node] = best;
+        improved = true;
+        moved = true;
+      }
+    });
+
+    if (!improved) break;
+  }
+
+  return { membership, moved };
+}
+
+// Louvain phase two: collapse every community into a single node
+function aggregate(graph: WeightedGraph, membership: number[]) {
+  const renumber = new Map<number, number>();
+  membership.forEach(community => {
+    if (!renumber.has(community)) renumber.set(community, renumber.size);
+  });
+
+  const collapsed: WeightedGraph = Array.from({ length: renumber.size }, () => new Map());
+  graph.forEach((edges, node) => {
+    const from = renumber.get(membership[node]);
+    edges.forEach((weight, neighbor) => {
+      if (neighbor < node) return;
+      const to = renumber.get(membership[neighbor]);
+      collapsed[from].set(to, (collapsed[from].get(to) ?? 0) + weight);
+      if (from !== to) collapsed[to].set(from, (collapsed[to].get(from) ?? 0) + weight);
+    });
+  });
+
+  return { collapsed, mapping: membership.map(community => renumber.get(community)) };
+}
+
+// Louvain community detection; visiting countries in id order keeps results reproducible
+export function detectCommunities(
+  source: Border[] | AdjacencyMap,
+  { resolution = 1 }: CommunityOptions = {}
+): CommunityResult {
+  const adjacency = source instanceof Map ? source : buildAdjacency(source);
+  const ids = Array.from(adjacency.keys()).sort();
+  const indexOf = new Map(ids.map((id, index) => [id, index]));
+
+  const original: WeightedGraph = ids.map(id => {
+    const edges = new Map<number, number>();
+    adjacency.get(id).forEach((_, neighbor) => edges.set(indexOf.get(neighbor), 1));
+    return edges;
+  });
+
+  // Community of every original node, refined level by level
+  let membership = ids.map((_, index) => index);
+  let graph = original;
+
+  for (;;) {
+    const level = moveNodes(graph, resolution);
+    if (!level.moved) break;
+    const { collapsed, mapping } = aggregate(graph, level.membership);
+    membership = membership.map(node => mapping[node]);
+    graph = collapsed;
+  }
+
+  const groups = new Map<number, CountryId[]>();
+  membership.forEach((community, index) => {
+    if (!groups.has(community)) groups.set(community, []);
+    groups.get(community).push(ids[index]);
+  });
+
+  const communities = Array.from(groups.values())
+    .sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+  const communityOf = new Map<CountryId, number>();
+  communities.forEach((members, index) => members.forEach(id => communityOf.set(id, index)));
+
+  return {
+    communities,
+    communityOf,
+    modularity: partitionModularity(original, ids.map(id => communityOf.get(id)), resolution),
+    resolution,
+  };
+}
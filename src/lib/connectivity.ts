@@ -0,0 +1,67 @@
+import { Border, CountryId } from '@/data/countries';
+import { AdjacencyMap, buildAdjacency } from './graph';
+
+export interface ConnectedComponent {
+  // Position in the size-sorted component list, 0 is the largest land mass
+  index: number;
+  countryIds: CountryId[];
+  // Most connected member, used to name the component
+  hub: CountryId;
+}
+
+export interface ComponentAnalysis {
+  components: ConnectedComponent[];
+  componentOf: Map<CountryId, number>;
+}
+
+// Borders that keep both sides on one land mass: no fixed links, sea boundaries or exclaves
+export const isLandMassBorder = (border: Border) => border.kind === "land" && !border.detached;
+
+// Split the border network into groups of countries that cannot reach each other.
+// `countryIds` adds countries without any borders as single-country components.
+export function findConnectedComponents(
+  source: Border[] | AdjacencyMap,
+  countryIds: Iterable<CountryId> = []
+): ComponentAnalysis {
+  const adjacency = source instanceof Map ? source : buildAdjacency(source);
+  const neighborsOf = (id: CountryId) => adjacency.get(id) ?? new Map<CountryId, Border[]>();
+  const visited = new Set<CountryId>();
+  const groups: CountryId[][] = [];
+
+  new Set([...adjacency.keys(), ...countryIds]).forEach(start => {
+    if (visited.has(start)) return;
+    visited.add(start);
+    const members = [start];
+
+    for (let head = 0; head < members.length; head++) {
+      neighborsOf(members[head]).forEach((_, neighbor) => {
+        if (visited.has(neighbor)) return;
+        visited.add(neighbor);
+        members.push(neighbor);
+      });
+    }
+
+    groups.push(members);
+  });
+
+  // Largest first; equal sizes keep a stable order by their first id
+  groups.forEach(members => members.sort());
+  groups.sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+
+  const componentOf = new Map<CountryId, number>();
+  const components = groups.map((countryIds, index) => {
+    countryIds.forEach(id => componentOf.set(id, index));
+    const hub = countryIds.reduce((best, id) =>
+      neighborsOf(id).size > neighborsOf(best).size ? id : best
+    );
+    return { index, countryIds, hub };
+  });
+
+  return { components, componentOf };
+}
+
+// Components of the land network, every country of the dataset included
+export function findLandMasses(borders: Border[]): ComponentAnalysis {
+  const countryIds = borders.flatMap(border => [border.source, border.target]);
+  return findConnectedComponents(borders.filter(isLandMassBorder), countryIds);
+}
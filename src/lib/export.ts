@@ -0,0 +1,169 @@
+import * as d3 from 'd3';
+import { Scene, SceneNode } from './renderers';
+import { createSvgRenderer } from './renderers/svgRenderer';
+
+// Everything needed to redraw the graph view outside the page
+export interface GraphSnapshot {
+  scene: Scene;
+  // View size in CSS pixels
+  width: number;
+  height: number;
+  background: string;
+  fontFamily: string;
+}
+
+export interface SvgExportOptions {
+  // Frame every visible country instead of keeping the current pan and zoom
+  fit?: boolean;
+  // Output size; defaults to the view size
+  width?: number;
+  height?: number;
+}
+
+// CSS pixels per inch, the resolution a PNG has at scale 1
+export const CSS_DPI = 96;
+
+export const MM_PER_INCH = 25.4;
+
+export type PageSize = "a4" | "letter";
+
+// Landscape page sizes in millimeters
+export const pageSizes: Record<PageSize, { label: string; width: number; height: number }> = {
+  a4: { label: "A4", width: 297, height: 210 },
+  letter: { label: "Letter", width: 279.4, height: 215.9 },
+};
+
+// Margin around the countries when the export is fitted to them
+const FIT_PADDING = 24;
+
+// Pan and zoom that frame the visible countries and their labels inside width × height
+function fitTransform(nodes: SceneNode[], width: number, height: number) {
+  const visible = nodes.filter(node => node.style.opacity > 0);
+  if (visible.length === 0) return d3.zoomIdentity;
+
+  // Labels sit to the right of the node; their width is estimated from the name length
+  const left = d3.min(visible, node => (node.x ?? 0) - node.style.radius);
+  const right = d3.max(visible, node => (node.x ?? 0) + node.style.radius + 4 + node.name.length * node.style.labelSize * 0.6);
+  const top = d3.min(visible, node => (node.y ?? 0) - node.style.radius);
+  const bottom = d3.max(visible, node => (node.y ?? 0) + node.style.radius + node.style.labelSize);
+  const scale = Math.min(
+    (width - 2 * FIT_PADDING) / Math.max(right - left, 1),
+    (height - 2 * FIT_PADDING) / Math.max(bottom - top, 1)
+  );
+  return d3.zoomIdentity
+    .translate(width / 2, height / 2)
+    .scale(scale)
+    .translate(-(left + right) / 2, -(top + bottom) / 2);
+}
+
+// Standalone SVG document of the graph. Every color, font and size is written onto the elements,
+// so the file looks the same without the page's stylesheets.
+export function snapshotToSvg(snapshot: GraphSnapshot, options: SvgExportOptions = {}): string {
+  const width = Math.round(options.width ?? snapshot.width);
+  const height = Math.round(options.height ?? snapshot.height);
+  const transform = options.fit
+    ? fitTransform(snapshot.scene.nodes, width, height)
+    : snapshot.scene.transform;
+
+  // Draw with the SVG backend into a detached container and serialize the result
+  const container = document.createElement("div");
+  const renderer = createSvgRenderer(container);
+  renderer.resize(width, height);
+  renderer.render({ ...snapshot.scene, rings: [], transform });
+
+  const svg = d3.select(renderer.element as SVGSVGElement)
+    .attr("class", null)
+    .attr("xmlns", "http://www.w3.org/2000/svg")
+    .attr("font-family", snapshot.fontFamily);
+  svg.selectAll<SVGElement, unknown>("[style]").each(function() {
+    this.style.removeProperty("pointer-events");
+    if (!this.getAttribute("style")) this.removeAttribute("style");
+  });
+  svg.insert("rect", ":first-child")
+    .attr("width", width)
+    .attr("height", height)
+    .attr("fill", snapshot.background);
+
+  const markup = new XMLSerializer().serializeToString(svg.node());
+  renderer.destroy();
+  return markup;
+}
+
+// SVG markup as a file, with the XML declaration standalone viewers expect
+export const svgBlob = (svg: string) =>
+  new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n`, svg], { type: "image/svg+xml" });
+
+// CRC-32 as used by PNG chunks
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  bytes.forEach(byte => {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Insert a pHYs chunk after the header so viewers and printers know the intended DPI
+async function withPixelDensity(png: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  // 8-byte signature, then IHDR: 4 length + 4 type + 13 data + 4 CRC
+  const headerEnd = 8 + 25;
+  const pixelsPerMeter = Math.round((dpi / MM_PER_INCH) * 1000);
+
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // Unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  return new Blob([bytes.subarray(0, headerEnd), chunk, bytes.subarray(headerEnd)], { type: "image/png" });
+}
+
+// Rasterize an SVG document at the given DPI; 96 keeps one pixel per CSS pixel
+export async function svgToPng(svg: string, width: number, height: number, dpi = CSS_DPI): Promise<Blob> {
+  const scale = dpi / CSS_DPI;
+  const url = URL.createObjectURL(svgBlob(svg));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const pixelWidth = Math.round(width * scale);
+    const pixelHeight = Math.round(height * scale);
+    let png: Blob;
+    if (typeof OffscreenCanvas !== "undefined") {
+      const canvas = new OffscreenCanvas(pixelWidth, pixelHeight);
+      canvas.getContext("2d").drawImage(image, 0, 0, pixelWidth, pixelHeight);
+      png = await canvas.convertToBlob({ type: "image/png" });
+    } else {
+      const canvas = document.createElement("canvas");
+      canvas.width = pixelWidth;
+      canvas.height = pixelHeight;
+      canvas.getContext("2d").drawImage(image, 0, 0, pixelWidth, pixelHeight);
+      png = await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode PNG"))), "image/png")
+      );
+    }
+    return withPixelDensity(png, dpi);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,98 @@
+// Main-thread handle on the force simulation, which runs in a dedicated worker.
+// Nodes are addressed by index; positions come back as interleaved x,y pairs.
+
+// Tunable parameters of the force layout, as exposed in the controls panel
+export interface ForceSettings {
+  // Repulsion between every pair of countries
+  charge: number;
+  linkDistance: number;
+  // Keeps countries from overlapping; switching it off keeps the radius for later
+  collisionEnabled: boolean;
+  collisionRadius: number;
+  alphaDecay: number;
+  // Pull of every country toward the middle of the view, applied while gravityEnabled is on
+  gravityEnabled: boolean;
+  gravity: number;
+}
+
+export const defaultForceSettings: ForceSettings = {
+  charge: 120,
+  linkDistance: 80,
+  collisionEnabled: true,
+  collisionRadius: 40,
+  // d3's default (1 - 0.001^(1/300) ≈ 0.0228) rounded to the slider step; the layout settles in about 300 ticks
+  alphaDecay: 0.023,
+  gravityEnabled: false,
+  gravity: 0.05,
+};
+
+export interface ForceConfig {
+  // Many-body strength, negative to repel; null switches the force off
+  charge: number | null;
+  linkDistance: number | null;
+  collisionRadius: number | null;
+  center: [number, number] | null;
+  // Per-node pull targets as x,y pairs, NaN for nodes without one
+  targets: Float32Array | null;
+  targetStrength: number;
+  // Second, independent set of pull targets layered on top, e.g. geographic anchors
+  anchors: Float32Array | null;
+  anchorStrength: number;
+  gravity: { x: number; y: number; strength: number } | null;
+  alphaDecay: number;
+}
+
+export type SimulationCommand =
+  | { type: "init"; nodeCount: number; links: Uint32Array; positions: Float32Array | null }
+  | { type: "forces"; config: ForceConfig; alpha: number }
+  | { type: "alphaTarget"; alphaTarget: number }
+  | { type: "pin"; index: number; x: number; y: number }
+  | { type: "release"; index: number };
+
+export type SimulationUpdate = { type: "tick"; positions: Float32Array; alpha: number };
+
+export interface ForceSimulation {
+  setForces: (config: ForceConfig, alpha: number) => void;
+  setAlphaTarget: (alphaTarget: number) => void;
+  // Hold a node at a position, e.g. while it is dragged
+  pin: (index: number, x: number, y: number) => void;
+  release: (index: number) => void;
+  stop: () => void;
+}
+
+export interface ForceSimulationOptions {
+  nodeCount: number;
+  // Index pairs of linked nodes
+  links: [number, number][];
+  // Starting positions as x,y pairs, NaN for nodes the simulation should place itself
+  positions?: Float32Array;
+  onTick: (positions: Float32Array, alpha: number) => void;
+}
+
+export function createForceSimulation({ nodeCount, links, positions, onTick }: ForceSimulationOptions): ForceSimulation {
+  const worker = new Worker(new URL('./forceSimulation.worker.ts', import.meta.url), { type: "module" });
+
+  const send = (command: SimulationCommand, transfer: Transferable[] = []) =>
+    worker.postMessage(command, transfer);
+
+  worker.onmessage = (event: MessageEvent<SimulationUpdate>) => {
+    if (event.data.type === "tick") onTick(event.data.positions, event.data.alpha);
+  };
+
+  const linkIndices = Uint32Array.from(links.flat());
+  send(
+    { type: "init", nodeCount, links: linkIndices, positions: positions ?? null },
+    positions ? [linkIndices.buffer, positions.buffer] : [linkIndices.buffer]
+  );
+
+  return {
+    setForces: (config, alpha) => {
+      const transfer = [config.targets, config.anchors].filter(Boolean).map(array => array.buffer);
+      send({ type: "forces", config, alpha }, transfer);
+    },
+    setAlphaTarget: alphaTarget => send({ type: "alphaTarget", alphaTarget }),
+    pin: (index, x, y) => send({ type: "pin", index, x, y }),
+    release: index => send({ type: "release", index }),
+    stop: () => worker.terminate(),
+  };
+}
@@ -0,0 +1,89 @@
+import * as d3 from 'd3';
+import type { ForceConfig, SimulationCommand, SimulationUpdate } from './forceSimulation';
+
+type WorkerNode = d3.SimulationNodeDatum;
+
+let nodes: WorkerNode[] = [];
+let simulation: d3.Simulation<WorkerNode, undefined> | null = null;
+let linkForce: d3.ForceLink<WorkerNode, d3.SimulationLinkDatum<WorkerNode>> | null = null;
+
+// Send every tick's positions back; the buffer is transferred, not copied
+const postPositions = () => {
+  const positions = new Float32Array(nodes.length * 2);
+  nodes.forEach((node, index) => {
+    positions[2 * index] = node.x;
+    positions[2 * index + 1] = node.y;
+  });
+  const update: SimulationUpdate = { type: "tick", positions, alpha: simulation.alpha() };
+  self.postMessage(update, { transfer: [positions.buffer] });
+};
+
+// Pull toward per-node targets; nodes without a target (NaN) are left alone
+const pullForces = (targets: Float32Array, strength: number) => {
+  const has = (index: number) => !Number.isNaN(targets[2 * index]);
+  return [
+    d3.forceX<WorkerNode>((node, index) => has(index) ? targets[2 * index] : node.x)
+      .strength((_, index) => has(index) ? strength : 0),
+    d3.forceY<WorkerNode>((node, index) => has(index) ? targets[2 * index + 1] : node.y)
+      .strength((_, index) => has(index) ? strength : 0),
+  ];
+};
+
+const applyForces = (config: ForceConfig) => {
+  const [targetX, targetY] = config.targets ? pullForces(config.targets, config.targetStrength) : [null, null];
+  const [anchorX, anchorY] = config.anchors ? pullForces(config.anchors, config.anchorStrength) : [null, null];
+
+  simulation
+    .force("charge", config.charge === null ? null : d3.forceManyBody().strength(config.charge))
+    .force("link", config.linkDistance === null ? null : linkForce.distance(config.linkDistance))
+    .force("collision", config.collisionRadius === null ? null : d3.forceCollide(config.collisionRadius))
+    .force("center", config.center ? d3.forceCenter(...config.center) : null)
+    .force("x", targetX)
+    .force("y", targetY)
+    .force("anchorX", anchorX)
+    .force("anchorY", anchorY)
+    .force("gravityX", config.gravity ? d3.forceX(config.gravity.x).strength(config.gravity.strength) : null)
+    .force("gravityY", config.gravity ? d3.forceY(config.gravity.y).strength(config.gravity.strength) : null)
+    .alphaDecay(config.alphaDecay);
+};
+
+self.onmessage = (event: MessageEvent<SimulationCommand>) => {
+  const command = event.data;
+
+  switch (command.type) {
+    case "init": {
+      // Nodes without a starting position are placed by d3's phyllotaxis arrangement
+      const { positions } = command;
+      nodes = d3.range(command.nodeCount).map(index =>
+        positions && !Number.isNaN(positions[2 * index])
+          ? { x: positions[2 * index], y: positions[2 * index + 1] }
+          : {}
+      );
+      const links = d3.range(command.links.length / 2).map(index => ({
+        source: command.links[2 * index],
+        target: command.links[2 * index + 1],
+      }));
+      linkForce = d3.forceLink<WorkerNode, d3.SimulationLinkDatum<WorkerNode>>(links);
+      // Forces arrive separately, so the simulation waits for them
+      simulation = d3.forceSimulation(nodes)
+        .on("tick", postPositions)
+        .stop();
+      break;
+    }
+    case "forces":
+      applyForces(command.config);
+      simulation.alpha(command.alpha).restart();
+      break;
+    case "alphaTarget":
+      simulation.alphaTarget(command.alphaTarget).restart();
+      break;
+    case "pin":
+      nodes[command.index].fx = command.x;
+      nodes[command.index].fy = command.y;
+      break;
+    case "release":
+      nodes[command.index].fx = null;
+      nodes[command.index].fy = null;
+      break;
+  }
+};
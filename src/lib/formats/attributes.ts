@@ -0,0 +1,61 @@
+import { AttributeKey, AttributeType, AttributeValue, Attributes, ImportIssue } from './types';
+
+const typeOf = (value: AttributeValue): AttributeType =>
+  typeof value === "number" ? "double" : typeof value === "boolean" ? "boolean" : "string";
+
+// Every attribute name in first-seen order; a name with mixed value types is written as a string
+export function collectKeys(items: { attributes: Attributes }[]): AttributeKey[] {
+  const keys = new Map<string, AttributeType>();
+  items.forEach(({ attributes }) => Object.entries(attributes).forEach(([name, value]) => {
+    const type = typeOf(value);
+    const known = keys.get(name);
+    keys.set(name, known === undefined || known === type ? type : "string");
+  }));
+  return Array.from(keys, ([name, type]) => ({ name, type }));
+}
+
+export const escapeXml = (value: AttributeValue) =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Root element of an XML file, or null with the reason in `issues`
+export function readXml(text: string, rootName: string, issues: ImportIssue[]): Element | null {
+  const xml = new DOMParser().parseFromString(text, "application/xml");
+  const error = xml.getElementsByTagName("parsererror")[0];
+  if (error) {
+    issues.push({ message: `Not valid XML: ${error.textContent?.trim().split("\n")[0]}` });
+    return null;
+  }
+  if (xml.documentElement.localName !== rootName) {
+    issues.push({ message: `Expected a <${rootName}> document, found <${xml.documentElement.localName}>` });
+    return null;
+  }
+  return xml.documentElement;
+}
+
+// Descendants by local name, whatever namespace the file declares
+export const descendants = (element: Element, name: string) =>
+  Array.from(element.getElementsByTagNameNS("*", name));
+
+export const childElements = (element: Element, name: string) =>
+  Array.from(element.children).filter(child => child.localName === name);
+
+// Typed attribute text as declared by the file's keys, e.g. GraphML's attr.type or GEXF's type
+export const typedValue = (text: string, type: string): AttributeValue => {
+  switch (type) {
+    case "int":
+    case "integer":
+    case "long":
+    case "float":
+    case "double":
+      // Text that is not a number becomes NaN, which validation reports
+      return text.trim() === "" ? NaN : Number(text);
+    case "boolean":
+      return text.trim().toLowerCase() === "true" || text.trim() === "1";
+    default:
+      return text.trim();
+  }
+};
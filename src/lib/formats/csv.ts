@@ -0,0 +1,112 @@
+import { collectKeys } from './attributes';
+import { RawEntry, assembleDocument, inferValue } from './schema';
+import { AttributeValue, Attributes, GraphDocument, ImportIssue, ImportResult } from './types';
+
+// Quote fields holding separators, quotes or line breaks, as RFC 4180 asks
+export const csvField = (value: AttributeValue | undefined) => {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per border with a header, the edge list layout Gephi and spreadsheet tools import
+export function toCSVEdgeList(document: GraphDocument): string {
+  const keys = collectKeys(document.edges).map(key => key.name);
+  const rows = [
+    ["source", "target", ...keys].join(","),
+    ...document.edges.map(edge =>
+      [edge.source, edge.target, ...keys.map(key => edge.attributes[key])].map(csvField).join(",")
+    ),
+  ];
+  return rows.join("\n") + "\n";
+}
+
+interface CsvRow {
+  // Line the row starts on; quoted fields can span several lines
+  line: number;
+  fields: string[];
+}
+
+// Split RFC 4180 text into rows, skipping blank lines
+function csvRows(text: string, issues: ImportIssue[]): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== "")) rows.push({ line: rowLine, fields });
+    fields = [];
+    field = "";
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    issues.push({ location: `Line ${rowLine}`, message: "A quoted field is never closed" });
+  } else {
+    endRow();
+  }
+  return rows;
+}
+
+// Edge list with a header row naming at least a source and a target column; further columns become attributes
+export function fromCSVEdgeList(text: string): ImportResult {
+  const issues: ImportIssue[] = [];
+  const [header, ...rows] = csvRows(text.replace(/^\uFEFF/, ""), issues);
+  if (!header) return assembleDocument([], [], issues);
+
+  const names = header.fields.map(name => name.trim());
+  const sourceIndex = names.findIndex(name => name.toLowerCase() === "source");
+  const targetIndex = names.findIndex(name => name.toLowerCase() === "target");
+  if (sourceIndex === -1 || targetIndex === -1) {
+    issues.push({ location: `Line ${header.line}`, message: 'The header needs a "source" and a "target" column' });
+    return assembleDocument([], [], issues);
+  }
+
+  const edges: RawEntry[] = [];
+  rows.forEach(({ line, fields }) => {
+    const location = `Line ${line}`;
+    if (fields.length !== names.length) {
+      issues.push({ location, message: `Expected ${names.length} fields, found ${fields.length}` });
+      return;
+    }
+    const attributes: Attributes = {};
+    fields.forEach((value, index) => {
+      if (index !== sourceIndex && index !== targetIndex && value.trim() !== "") {
+        attributes[names[index]] = inferValue(value);
+      }
+    });
+    edges.push({ location, value: { source: fields[sourceIndex], target: fields[targetIndex], attributes } });
+  });
+
+  return assembleDocument([], edges, issues);
+}
@@ -0,0 +1,69 @@
+import { Border, BorderKind, CountryId, countriesById, getCountryName } from '@/data/countries';
+import { buildAdjacency } from '../graph';
+import { CentralityMetric, CentralityScores } from '../centrality';
+import { AttributeValue, Attributes, GraphDocument } from './types';
+
+export interface GraphDocumentOptions {
+  // Centrality scores written as one node attribute per metric
+  scores?: CentralityScores;
+  // Current layout positions
+  positions?: Map<CountryId, { x: number; y: number }>;
+  // Further computed values per country, e.g. the community or map color index
+  nodeValues?: Record<string, Map<CountryId, AttributeValue>>;
+  // Node labels of an imported network; its ids are not looked up in the country registry
+  names?: Map<CountryId, string>;
+}
+
+// Border fields that become edge attributes; absent optional fields are left out
+const borderAttributes = (border: Border): Attributes => {
+  const attributes: Attributes = { kind: border.kind };
+  if (border.territory) attributes.territory = border.territory;
+  if (border.detached) attributes.detached = true;
+  if (border.lengthKm !== undefined) attributes.lengthKm = border.lengthKm;
+  if (border.disputed) attributes.disputed = true;
+  return attributes;
+};
+
+// The border network with country data, metrics and positions, ready for any serializer
+export function buildGraphDocument(borders: Border[], options: GraphDocumentOptions = {}): GraphDocument {
+  const { scores, positions, nodeValues = {}, names } = options;
+  const adjacency = buildAdjacency(borders);
+
+  const nodes = Array.from(adjacency.keys()).sort().map(id => {
+    const country = names ? undefined : countriesById[id];
+    const attributes: Attributes = {};
+    if (country) attributes.continent = country.continents.join(";");
+    if (country?.parent) attributes.parent = country.parent;
+    if (scores) {
+      (Object.keys(scores) as CentralityMetric[]).forEach(metric => {
+        const score = scores[metric].get(id);
+        if (score !== undefined) attributes[metric] = score;
+      });
+    }
+    Object.entries(nodeValues).forEach(([name, values]) => {
+      if (values.has(id)) attributes[name] = values.get(id);
+    });
+    const position = positions?.get(id);
+    return { id, label: names?.get(id) ?? getCountryName(id), attributes, ...(position && { position }) };
+  });
+
+  const edges = borders
+    .filter(border => border.source !== border.target)
+    .map(border => ({ source: border.source, target: border.target, attributes: borderAttributes(border) }));
+
+  return { nodes, edges };
+}
+
+// Borders and node labels read back from a document; edges without a kind are land borders
+export function documentToBorders(document: GraphDocument): { borders: Border[]; names: Map<CountryId, string> } {
+  const borders = document.edges.map(({ source, target, attributes }) => {
+    const border: Border = { source, target, kind: (attributes.kind as BorderKind) ?? "land" };
+    if (typeof attributes.territory === "string") border.territory = attributes.territory;
+    if (attributes.detached === true) border.detached = true;
+    if (typeof attributes.lengthKm === "number") border.lengthKm = attributes.lengthKm;
+    if (attributes.disputed === true) border.disputed = true;
+    return border;
+  });
+  const names = new Map(document.nodes.map(node => [node.id, node.label]));
+  return { borders, names };
+}
@@ -0,0 +1,24 @@
+import { AttributeValue, Attributes, GraphDocument } from './types';
+
+const quote = (value: AttributeValue) => `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+const attributeList = (attributes: Attributes) => {
+  const entries = Object.entries(attributes).filter(([, value]) => value !== undefined);
+  return entries.length === 0 ? "" : ` [${entries.map(([name, value]) => `${quote(name)}=${quote(value)}`).join(", ")}]`;
+};
+
+// Graphviz DOT. Positions are pinned ("x,y!") so `neato -n` keeps the current layout;
+// Graphviz's y axis points up, so they are flipped.
+export function toDOT(document: GraphDocument): string {
+  const nodeLines = document.nodes.map(node => {
+    const attributes: Attributes = { label: node.label, ...node.attributes };
+    if (node.position) attributes.pos = `${node.position.x},${-node.position.y}!`;
+    return `  ${quote(node.id)}${attributeList(attributes)};`;
+  });
+
+  const edgeLines = document.edges.map(edge =>
+    `  ${quote(edge.source)} -- ${quote(edge.target)}${attributeList(edge.attributes)};`
+  );
+
+  return ["graph borders {", ...nodeLines, ...edgeLines, "}", ""].join("\n");
+}
@@ -0,0 +1,199 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { Border } from '@/data/countries';
+import {
+  GraphDocument,
+  ImportResult,
+  buildGraphDocument,
+  documentToBorders,
+  fromCSVEdgeList,
+  fromGEXF,
+  fromGraphML,
+  fromNodeLinkJSON,
+  importGraph,
+  toCSVEdgeList,
+  toDOT,
+  toGEXF,
+  toGraphML,
+  toNodeLinkJSON,
+} from './index';
+
+// Labels and attributes that need escaping in every format, parallel borders and positions on both sides of 0
+const sample: GraphDocument = {
+  nodes: [
+    { id: "FRA", label: "France & <Monaco>", attributes: { continent: "Europe", degree: 2, pagerank: 0.25 }, position: { x: 1.5, y: -2 } },
+    { id: "ESP", label: 'Spain "ES"', attributes: { continent: "Europe", degree: 2, pagerank: 0.5 }, position: { x: -3, y: 4.25 } },
+    { id: "AND", label: "Andorra", attributes: { continent: "Europe", degree: 2, pagerank: 0.25 }, position: { x: 7, y: 1 } },
+  ],
+  edges: [
+    { source: "FRA", target: "ESP", attributes: { kind: "land", lengthKm: 623 } },
+    { source: "AND", target: "ESP", attributes: { kind: "land", lengthKm: 63.7 } },
+    { source: "AND", target: "FRA", attributes: { kind: "land", lengthKm: 55, disputed: false } },
+    { source: "FRA", target: "ESP", attributes: { kind: "maritime", territory: 'Bay of "Biscay", north' } },
+  ],
+};
+
+const roundTrips: [string, (document: GraphDocument) => string, (text: string) => ImportResult][] = [
+  ["GraphML", toGraphML, fromGraphML],
+  ["GEXF", toGEXF, fromGEXF],
+  ["node-link JSON", toNodeLinkJSON, fromNodeLinkJSON],
+];
+
+describe("serializers", () => {
+  it.each(roundTrips)("reads back what %s writes", (_, serialize, parse) => {
+    const { document, issues } = parse(serialize(sample));
+    expect(issues).toEqual([]);
+    expect(document).toEqual(sample);
+  });
+
+  it("reads back the edges of a CSV edge list", () => {
+    const { document, issues } = fromCSVEdgeList(toCSVEdgeList(sample));
+    expect(issues).toEqual([]);
+    expect(document.edges).toEqual(sample.edges);
+    expect(document.nodes.map(node => node.id)).toEqual(["FRA", "ESP", "AND"]);
+  });
+
+  it("quotes CSV fields with separators, quotes and line breaks", () => {
+    const document: GraphDocument = {
+      nodes: [],
+      edges: [{ source: "A", target: "B", attributes: { note: 'one, "two"\nthree' } }],
+    };
+    const csv = toCSVEdgeList(document);
+    expect(csv).toBe('source,target,note\nA,B,"one, ""two""\nthree"\n');
+    expect(fromCSVEdgeList(csv).document.edges).toEqual(document.edges);
+  });
+
+  it("writes DOT with escaped labels and pinned, flipped positions", () => {
+    const dot = toDOT(sample);
+    expect(dot).toMatch(/^graph borders \{\n/);
+    expect(dot).toContain('"ESP" ["label"="Spain \\"ES\\"", "continent"="Europe", "degree"="2", "pagerank"="0.5", "pos"="-3,-4.25!"];');
+    expect(dot).toContain('"AND" -- "FRA" ["kind"="land", "lengthKm"="55", "disputed"="false"];');
+    expect(dot.match(/--/g)).toHaveLength(4);
+  });
+
+  it("turns borders into a document and back", () => {
+    const borders: Border[] = [
+      { source: "ESP", target: "FRA", kind: "land", lengthKm: 623 },
+      { source: "ESP", target: "MAR", kind: "land", territory: "Ceuta", detached: true },
+      { source: "ESP", target: "MAR", kind: "land", territory: "Melilla", detached: true, disputed: true },
+    ];
+    const document = buildGraphDocument(borders);
+    expect(document.nodes.map(node => node.label)).toEqual(["Spain", "France", "Morocco"]);
+
+    const read = documentToBorders(fromGraphML(toGraphML(document)).document);
+    expect(read.borders).toEqual(borders);
+    expect(read.names.get("MAR")).toBe("Morocco");
+  });
+});
+
+const messages = (result: ImportResult) => result.issues.map(issue => (issue.location ? `${issue.location}: ${issue.message}` : issue.message));
+
+describe("parsers", () => {
+  it("matches the border kind case-insensitively and trims values", () => {
+    const { document, issues } = fromCSVEdgeList("source,target,kind,territory\nESP,FRA, Land ,  Cerdanya \nESP,MAR,MARITIME,\n");
+    expect(issues).toEqual([]);
+    expect(documentToBorders(document).borders).toEqual([
+      { source: "ESP", target: "FRA", kind: "land", territory: "Cerdanya" },
+      { source: "ESP", target: "MAR", kind: "maritime" },
+    ]);
+  });
+
+  it("reports malformed CSV rows and keeps the rest", () => {
+    const result = fromCSVEdgeList("Source,Target,kind,lengthKm\nA,B,ocean,\nA,C,land\nA,A,land,1\nB,C,land,-5\nC,D,land,12\n");
+    expect(result.document.edges).toEqual([{ source: "C", target: "D", attributes: { kind: "land", lengthKm: 12 } }]);
+    expect(messages(result)).toEqual([
+      "Line 3: Expected 4 fields, found 3",
+      expect.stringMatching(/^Line 2: kind: /),
+      "Line 4: Edge connects A to itself",
+      expect.stringMatching(/^Line 5: lengthKm: /),
+    ]);
+  });
+
+  it("reports CSV files it cannot read at all", () => {
+    expect(messages(fromCSVEdgeList("from,to\nA,B\n"))).toEqual([
+      'Line 1: The header needs a "source" and a "target" column',
+      "The file contains no usable edges",
+    ]);
+    expect(messages(fromCSVEdgeList('source,target\nA,"B\n'))).toEqual([
+      "Line 2: A quoted field is never closed",
+      "The file contains no usable edges",
+    ]);
+  });
+
+  it("reports malformed node-link JSON", () => {
+    expect(messages(fromNodeLinkJSON("{ nodes: [")).at(0)).toMatch(/^Not valid JSON: /);
+    expect(messages(fromNodeLinkJSON('{ "nodes": [] }')).at(0)).toBe('Expected a "links" or "edges" array');
+
+    const result = fromNodeLinkJSON(JSON.stringify({
+      directed: true,
+      nodes: [{ id: "A" }, { id: "A", label: "Again" }, { label: "No id" }],
+      edges: [{ source: "A", target: "B", kind: "Bridge" }, "not an edge"],
+    }));
+    expect(result.document.edges).toEqual([{ source: "A", target: "B", attributes: { kind: "bridge" } }]);
+    expect(result.document.nodes.map(node => node.id)).toEqual(["A", "B"]);
+    expect(messages(result)).toEqual([
+      "The graph is directed; edges are read as undirected",
+      "Node 2: Node A is declared twice; the first one is kept",
+      expect.stringMatching(/^Node 3: id: /),
+      expect.stringMatching(/^Edge 2: /),
+    ]);
+  });
+
+  it("reports XML that is broken or of the wrong kind", () => {
+    expect(messages(fromGraphML("<graphml><graph>")).at(0)).toMatch(/^Not valid XML/);
+    expect(messages(fromGraphML(toGEXF(sample))).at(0)).toBe("Expected a <graphml> document, found <gexf>");
+    expect(messages(fromGEXF(toGraphML(sample))).at(0)).toBe("Expected a <gexf> document, found <graphml>");
+    expect(messages(fromGraphML('<graphml xmlns="http://graphml.graphdrawing.org/xmlns"/>'))).toEqual([
+      "The file contains no <graph>",
+      "The file contains no usable edges",
+    ]);
+  });
+
+  it("reports GraphML data of the wrong type", () => {
+    const graphml = (lengthType: string) => `<?xml version="1.0"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="k" for="edge" attr.name="kind" attr.type="string"/>
+  <key id="l" for="edge" attr.name="lengthKm" attr.type="${lengthType}"/>
+  <graph edgedefault="undirected">
+    <edge source="A" target="B"><data key="k"> Tunnel </data><data key="l">12</data></edge>
+    <edge source="B" target="C"><data key="l">far</data></edge>
+  </graph>
+</graphml>`;
+
+    const typed = fromGraphML(graphml("double"));
+    expect(typed.document.edges).toEqual([{ source: "A", target: "B", attributes: { kind: "tunnel", lengthKm: 12 } }]);
+    expect(messages(typed)).toEqual([expect.stringMatching(/^Edge 2: lengthKm: /)]);
+
+    expect(messages(fromGraphML(graphml("string")))).toEqual([
+      expect.stringMatching(/^Edge 1: lengthKm: /),
+      expect.stringMatching(/^Edge 2: lengthKm: /),
+      "The file contains no usable edges",
+    ]);
+  });
+
+  it("reads GEXF edge weights and warns about directed graphs", () => {
+    const gexf = toGEXF({ nodes: [], edges: [{ source: "A", target: "B", attributes: {} }] })
+      .replace('defaultedgetype="undirected"', 'defaultedgetype="directed"')
+      .replace('<edge id="0"', '<edge id="0" weight="2.5"');
+    const result = fromGEXF(gexf);
+    expect(result.document.edges[0].attributes).toEqual({ weight: 2.5 });
+    expect(messages(result)).toEqual(["The graph is directed; edges are read as undirected"]);
+  });
+});
+
+describe("importGraph", () => {
+  it("detects the format by extension and then by content", () => {
+    expect(importGraph("borders.csv", toNodeLinkJSON(sample)).format).toBe("csv");
+    expect(importGraph("borders", toNodeLinkJSON(sample)).format).toBe("json");
+    expect(importGraph("borders", toGEXF(sample)).format).toBe("gexf");
+    expect(importGraph("borders.xml", toGraphML(sample)).format).toBe("graphml");
+  });
+
+  it("reads borders and labels and counts nodes without edges", () => {
+    const withIsolated = { ...sample, nodes: [...sample.nodes, { id: "XXX", label: "Nowhere", attributes: {} }] };
+    const { borders, names, issues } = importGraph("borders.json", toNodeLinkJSON(withIsolated));
+    expect(borders).toHaveLength(4);
+    expect(names.get("FRA")).toBe("France & <Monaco>");
+    expect(issues).toEqual([{ message: "1 nodes have no edges and are not shown" }]);
+  });
+});
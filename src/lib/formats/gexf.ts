@@ -0,0 +1,135 @@
+import { childElements, collectKeys, descendants, escapeXml, readXml, typedValue } from './attributes';
+import { RawEntry, assembleDocument } from './schema';
+import { AttributeKey, AttributeValue, Attributes, GraphDocument, ImportIssue, ImportResult } from './types';
+
+// GEXF 1.3 for Gephi. Its y axis points up, so positions are flipped to keep the on-screen layout.
+export function toGEXF(document: GraphDocument): string {
+  const nodeKeys = collectKeys(document.nodes);
+  const edgeKeys = collectKeys(document.edges);
+
+  const attributeBlock = (scope: "node" | "edge", keys: AttributeKey[]) => keys.length === 0 ? [] : [
+    `    <attributes class="${scope}">`,
+    ...keys.map((key, index) =>
+      `      <attribute id="${index}" title="${escapeXml(key.name)}" type="${key.type}"/>`
+    ),
+    "    </attributes>",
+  ];
+
+  const attributeValues = (keys: AttributeKey[], attributes: Attributes) => {
+    const values = keys
+      .map((key, index) => [index, attributes[key.name]] as const)
+      .filter(([, value]) => value !== undefined)
+      .map(([index, value]) => `          <attvalue for="${index}" value="${escapeXml(value)}"/>`);
+    return values.length === 0 ? [] : ["        <attvalues>", ...values, "        </attvalues>"];
+  };
+
+  const nodeLines = document.nodes.flatMap(node => [
+    `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`,
+    ...attributeValues(nodeKeys, node.attributes),
+    ...(node.position ? [`        <viz:position x="${node.position.x}" y="${-node.position.y}" z="0"/>`] : []),
+    "      </node>",
+  ]);
+
+  const edgeLines = document.edges.flatMap((edge, index) => [
+    `      <edge id="${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`,
+    ...attributeValues(edgeKeys, edge.attributes),
+    "      </edge>",
+  ]);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">`,
+    `  <graph mode="static" defaultedgetype="undirected">`,
+    ...attributeBlock("node", nodeKeys),
+    ...attributeBlock("edge", edgeKeys),
+    "    <nodes>",
+    ...nodeLines,
+    "    </nodes>",
+    "    <edges>",
+    ...edgeLines,
+    "    </edges>",
+    "  </graph>",
+    "</gexf>",
+    "",
+  ].join("\n");
+}
+
+interface GEXFAttribute {
+  title: string;
+  type: string;
+  default?: string;
+}
+
+// Nodes and edges of a GEXF 1.x file with their attribute values; positions are flipped back to a y axis pointing down
+export function fromGEXF(text: string): ImportResult {
+  const issues: ImportIssue[] = [];
+  const root = readXml(text, "gexf", issues);
+  const graph = root && descendants(root, "graph")[0];
+  if (!graph) {
+    if (root) issues.push({ message: "The file contains no <graph>" });
+    return assembleDocument([], [], issues);
+  }
+  if (graph.getAttribute("defaultedgetype") === "directed") {
+    issues.push({ message: "The graph is directed; edges are read as undirected" });
+  }
+
+  const attributesFor = (scope: "node" | "edge") => new Map<string, GEXFAttribute>(
+    childElements(graph, "attributes")
+      .filter(block => block.getAttribute("class") === scope)
+      .flatMap(block => childElements(block, "attribute"))
+      .map(attribute => [attribute.getAttribute("id"), {
+        title: attribute.getAttribute("title") ?? attribute.getAttribute("id"),
+        type: attribute.getAttribute("type") ?? "string",
+        default: childElements(attribute, "default")[0]?.textContent ?? undefined,
+      }])
+  );
+  const nodeAttributes = attributesFor("node");
+  const edgeAttributes = attributesFor("edge");
+
+  const valuesOf = (element: Element, declared: Map<string, GEXFAttribute>) => {
+    const values = new Map<string, AttributeValue>();
+    declared.forEach(attribute => {
+      if (attribute.default !== undefined) values.set(attribute.title, typedValue(attribute.default, attribute.type));
+    });
+    childElements(element, "attvalues")
+      .flatMap(block => childElements(block, "attvalue"))
+      .forEach(attvalue => {
+        // GEXF 1.1 names the attribute in "id", later versions in "for"
+        const attribute = declared.get(attvalue.getAttribute("for") ?? attvalue.getAttribute("id"));
+        if (attribute) values.set(attribute.title, typedValue(attvalue.getAttribute("value") ?? "", attribute.type));
+      });
+    return Object.fromEntries(values) as Attributes;
+  };
+
+  const nodes: RawEntry[] = descendants(graph, "node").map((node, index) => {
+    const position = childElements(node, "position")[0];
+    return {
+      location: `Node ${index + 1}`,
+      value: {
+        id: node.getAttribute("id") ?? "",
+        label: node.getAttribute("label") ?? undefined,
+        attributes: valuesOf(node, nodeAttributes),
+        position: position && {
+          x: Number(position.getAttribute("x")),
+          y: -Number(position.getAttribute("y")),
+        },
+      },
+    };
+  });
+
+  const edges: RawEntry[] = descendants(graph, "edge").map((edge, index) => {
+    const attributes = valuesOf(edge, edgeAttributes);
+    const weight = edge.getAttribute("weight");
+    if (weight !== null) attributes.weight = typedValue(weight, "double");
+    return {
+      location: `Edge ${index + 1}`,
+      value: {
+        source: edge.getAttribute("source") ?? "",
+        target: edge.getAttribute("target") ?? "",
+        attributes,
+      },
+    };
+  });
+
+  return assembleDocument(nodes, edges, issues);
+}
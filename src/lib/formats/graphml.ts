@@ -0,0 +1,120 @@
+import { childElements, collectKeys, descendants, escapeXml, readXml, typedValue } from './attributes';
+import { RawEntry, assembleDocument } from './schema';
+import { AttributeKey, AttributeValue, Attributes, GraphDocument, ImportIssue, ImportResult } from './types';
+
+// GraphML as read by networkx, yEd, Gephi and igraph; positions become x and y node attributes
+export function toGraphML(document: GraphDocument): string {
+  const hasPositions = document.nodes.some(node => node.position);
+  const nodeKeys: AttributeKey[] = [
+    { name: "label", type: "string" },
+    ...collectKeys(document.nodes),
+    ...(hasPositions ? [{ name: "x", type: "double" as const }, { name: "y", type: "double" as const }] : []),
+  ];
+  const edgeKeys = collectKeys(document.edges);
+
+  const keyLines = [
+    ...nodeKeys.map(key => ({ ...key, scope: "node", id: `n_${key.name}` })),
+    ...edgeKeys.map(key => ({ ...key, scope: "edge", id: `e_${key.name}` })),
+  ].map(({ id, scope, name, type }) =>
+    `  <key id="${escapeXml(id)}" for="${scope}" attr.name="${escapeXml(name)}" attr.type="${type}"/>`
+  );
+
+  const data = (prefix: string, values: Record<string, unknown>) =>
+    Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `      <data key="${escapeXml(`${prefix}_${name}`)}">${escapeXml(String(value))}</data>`);
+
+  const nodeLines = document.nodes.flatMap(node => [
+    `    <node id="${escapeXml(node.id)}">`,
+    ...data("n", { label: node.label, ...node.attributes, x: node.position?.x, y: node.position?.y }),
+    "    </node>",
+  ]);
+
+  const edgeLines = document.edges.flatMap((edge, index) => [
+    `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`,
+    ...data("e", edge.attributes),
+    "    </edge>",
+  ]);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    ...keyLines,
+    `  <graph id="borders" edgedefault="undirected">`,
+    ...nodeLines,
+    ...edgeLines,
+    "  </graph>",
+    "</graphml>",
+    "",
+  ].join("\n");
+}
+
+interface GraphMLKey {
+  name: string;
+  type: string;
+  default?: string;
+}
+
+// Nodes and edges of the first graph in the file. Keys without attr.name, such as yEd's
+// graphics, are left out; "label" or "name" becomes the node label and x, y its position.
+export function fromGraphML(text: string): ImportResult {
+  const issues: ImportIssue[] = [];
+  const root = readXml(text, "graphml", issues);
+  const graph = root && descendants(root, "graph")[0];
+  if (!graph) {
+    if (root) issues.push({ message: "The file contains no <graph>" });
+    return assembleDocument([], [], issues);
+  }
+  if (graph.getAttribute("edgedefault") === "directed") {
+    issues.push({ message: "The graph is directed; edges are read as undirected" });
+  }
+
+  // Keys declared for one scope, including those declared for all
+  const keysFor = (scope: "node" | "edge") => new Map<string, GraphMLKey>(
+    childElements(root, "key")
+      .filter(key => key.getAttribute("attr.name") && ["all", scope, null].includes(key.getAttribute("for")))
+      .map(key => [key.getAttribute("id"), {
+        name: key.getAttribute("attr.name"),
+        type: key.getAttribute("attr.type") ?? "string",
+        default: childElements(key, "default")[0]?.textContent ?? undefined,
+      }])
+  );
+  const nodeKeys = keysFor("node");
+  const edgeKeys = keysFor("edge");
+
+  const dataOf = (element: Element, keys: Map<string, GraphMLKey>) => {
+    const values = new Map<string, AttributeValue>();
+    keys.forEach(key => {
+      if (key.default !== undefined) values.set(key.name, typedValue(key.default, key.type));
+    });
+    childElements(element, "data").forEach(data => {
+      const key = keys.get(data.getAttribute("key"));
+      if (key) values.set(key.name, typedValue(data.textContent ?? "", key.type));
+    });
+    return Object.fromEntries(values) as Attributes;
+  };
+
+  const nodes: RawEntry[] = descendants(graph, "node").map((node, index) => {
+    const { label, name, x, y, ...attributes } = dataOf(node, nodeKeys);
+    return {
+      location: `Node ${index + 1}`,
+      value: {
+        id: node.getAttribute("id") ?? "",
+        label: (label ?? name)?.toString(),
+        attributes,
+        position: x === undefined && y === undefined ? undefined : { x, y },
+      },
+    };
+  });
+
+  const edges: RawEntry[] = descendants(graph, "edge").map((edge, index) => ({
+    location: `Edge ${index + 1}`,
+    value: {
+      source: edge.getAttribute("source") ?? "",
+      target: edge.getAttribute("target") ?? "",
+      attributes: dataOf(edge, edgeKeys),
+    },
+  }));
+
+  return assembleDocument(nodes, edges, issues);
+}
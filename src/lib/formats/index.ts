@@ -0,0 +1,74 @@
+import { Border, CountryId } from '@/data/countries';
+import { GraphDocument, GraphFormat, ImportFormat, ImportIssue, ImportResult } from './types';
+import { documentToBorders } from './document';
+import { fromGraphML, toGraphML } from './graphml';
+import { fromGEXF, toGEXF } from './gexf';
+import { toDOT } from './dot';
+import { fromNodeLinkJSON, toNodeLinkJSON } from './json';
+import { fromCSVEdgeList, toCSVEdgeList } from './csv';
+
+export * from './types';
+export { buildGraphDocument, documentToBorders } from './document';
+export type { GraphDocumentOptions } from './document';
+export { toGraphML, toGEXF, toDOT, toNodeLinkJSON, toCSVEdgeList };
+export { fromGraphML, fromGEXF, fromNodeLinkJSON, fromCSVEdgeList };
+
+export const graphFormats: Record<GraphFormat, {
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (document: GraphDocument) => string;
+}> = {
+  graphml: { label: "GraphML", extension: "graphml", mimeType: "application/graphml+xml", serialize: toGraphML },
+  gexf: { label: "GEXF (Gephi)", extension: "gexf", mimeType: "application/gexf+xml", serialize: toGEXF },
+  dot: { label: "DOT (Graphviz)", extension: "dot", mimeType: "text/vnd.graphviz", serialize: toDOT },
+  json: { label: "Node-link JSON", extension: "json", mimeType: "application/json", serialize: toNodeLinkJSON },
+  csv: { label: "CSV edge list", extension: "csv", mimeType: "text/csv", serialize: toCSVEdgeList },
+};
+
+export const importFormats: Record<ImportFormat, {
+  label: string;
+  extensions: string[];
+  parse: (text: string) => ImportResult;
+}> = {
+  graphml: { label: "GraphML", extensions: ["graphml", "xml"], parse: fromGraphML },
+  gexf: { label: "GEXF", extensions: ["gexf"], parse: fromGEXF },
+  json: { label: "Node-link JSON", extensions: ["json"], parse: fromNodeLinkJSON },
+  csv: { label: "CSV edge list", extensions: ["csv", "txt"], parse: fromCSVEdgeList },
+};
+
+// File extensions for the file picker's accept list
+export const importExtensions = Object.values(importFormats).flatMap(format => format.extensions.map(ext => `.${ext}`));
+
+// Format by file extension, falling back to the first characters for unknown extensions
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  const byExtension = (Object.keys(importFormats) as ImportFormat[])
+    .find(format => importFormats[format].extensions.includes(extension));
+  if (byExtension) return byExtension;
+
+  const start = text.trimStart();
+  if (start.startsWith("{")) return "json";
+  if (start.startsWith("<")) return /<gexf[\s>]/.test(start) ? "gexf" : "graphml";
+  return "csv";
+}
+
+export interface GraphImport {
+  format: ImportFormat;
+  borders: Border[];
+  // Labels the file gives its nodes
+  names: Map<CountryId, string>;
+  issues: ImportIssue[];
+}
+
+// Read a user's file into borders; whatever could not be read is listed in `issues`
+export function importGraph(fileName: string, text: string): GraphImport {
+  const format = detectImportFormat(fileName, text);
+  const { document, issues } = importFormats[format].parse(text);
+  const linked = new Set(document.edges.flatMap(edge => [edge.source, edge.target]));
+  const isolated = document.nodes.filter(node => !linked.has(node.id));
+  if (isolated.length > 0) {
+    issues.push({ message: `${isolated.length} nodes have no edges and are not shown` });
+  }
+  return { format, ...documentToBorders(document), issues };
+}
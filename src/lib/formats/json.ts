@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { RawEntry, assembleDocument, attributeValueSchema, issueFrom } from './schema';
+import { Attributes, GraphDocument, ImportIssue, ImportResult } from './types';
+
+// networkx's node-link layout (`nx.node_link_graph`), also read by d3 and most JS graph libraries
+export function toNodeLinkJSON(document: GraphDocument): string {
+  return JSON.stringify({
+    directed: false,
+    multigraph: true,
+    graph: {},
+    nodes: document.nodes.map(node => ({
+      id: node.id,
+      label: node.label,
+      ...node.attributes,
+      ...(node.position && { x: node.position.x, y: node.position.y }),
+    })),
+    links: document.edges.map(edge => ({ source: edge.source, target: edge.target, ...edge.attributes })),
+  }, null, 2);
+}
+
+// networkx writes the edges under "links", or under "edges" when asked to
+const nodeLinkSchema = z.object({
+  directed: z.boolean().optional(),
+  nodes: z.array(z.unknown()).default([]),
+  links: z.array(z.unknown()).optional(),
+  edges: z.array(z.unknown()).optional(),
+}).refine(graph => graph.links || graph.edges, { message: 'Expected a "links" or "edges" array' });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Keep the fields a graph attribute can hold; nested objects and lists have no place in one
+const plainAttributes = (fields: Record<string, unknown>): Attributes =>
+  Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => attributeValueSchema.safeParse(value).success)
+  ) as Attributes;
+
+export function fromNodeLinkJSON(text: string): ImportResult {
+  const issues: ImportIssue[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    issues.push({ message: `Not valid JSON: ${error instanceof Error ? error.message : error}` });
+    return assembleDocument([], [], issues);
+  }
+
+  const graph = nodeLinkSchema.safeParse(data);
+  if (!graph.success) {
+    issues.push(issueFrom(undefined, graph.error));
+    return assembleDocument([], [], issues);
+  }
+  if (graph.data.directed) issues.push({ message: "The graph is directed; edges are read as undirected" });
+
+  const nodes: RawEntry[] = graph.data.nodes.map((node, index) => {
+    if (!isRecord(node)) return { location: `Node ${index + 1}`, value: node };
+    const { id, label, x, y, ...fields } = node;
+    return {
+      location: `Node ${index + 1}`,
+      value: {
+        id,
+        label: label === undefined ? undefined : String(label),
+        attributes: plainAttributes(fields),
+        position: x === undefined && y === undefined ? undefined : { x, y },
+      },
+    };
+  });
+
+  const edges: RawEntry[] = (graph.data.links ?? graph.data.edges).map((link, index) => {
+    if (!isRecord(link)) return { location: `Edge ${index + 1}`, value: link };
+    const { source, target, ...fields } = link;
+    return { location: `Edge ${index + 1}`, value: { source, target, attributes: plainAttributes(fields) } };
+  });
+
+  return assembleDocument(nodes, edges, issues);
+}
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { BorderKind, borderKindLabels } from '@/data/countries';
+import { AttributeValue, DocumentEdge, DocumentNode, ImportIssue, ImportResult } from './types';
+
+// Ids may be written as numbers, e.g. by networkx for integer node keys
+const idSchema = z.union([z.string(), z.number()])
+  .transform(value => String(value).trim())
+  .pipe(z.string().min(1, "Missing id"));
+
+export const attributeValueSchema = z.union([z.string(), z.number().finite(), z.boolean()], {
+  errorMap: () => ({ message: "Expected text, a finite number, true or false" }),
+});
+
+const borderKinds = Object.keys(borderKindLabels) as [BorderKind, ...BorderKind[]];
+
+// Files written by hand often capitalise the kind ("Land"), so it is matched case-insensitively
+const borderKindSchema = z.preprocess(
+  value => (typeof value === "string" ? value.trim().toLowerCase() : value),
+  z.enum(borderKinds)
+);
+
+// Edge attributes that are read back into borders must have a border's field types; others pass through
+const edgeAttributesSchema = z.object({
+  kind: borderKindSchema.optional(),
+  territory: z.string().optional(),
+  detached: z.boolean().optional(),
+  lengthKm: z.number().nonnegative().optional(),
+  disputed: z.boolean().optional(),
+}).catchall(attributeValueSchema);
+
+const positionSchema = z.object({
+  x: z.number().finite(),
+  y: z.number().finite(),
+});
+
+export const documentNodeSchema = z.object({
+  id: idSchema,
+  label: z.string().optional(),
+  attributes: z.record(attributeValueSchema).default({}),
+  position: positionSchema.optional(),
+}).transform((node): DocumentNode => ({
+  id: node.id,
+  label: node.label?.trim() || node.id,
+  attributes: node.attributes,
+  ...(node.position && { position: { x: node.position.x, y: node.position.y } }),
+}));
+
+export const documentEdgeSchema = z.object({
+  source: idSchema,
+  target: idSchema,
+  attributes: edgeAttributesSchema.default({}),
+}).refine(edge => edge.source !== edge.target, edge => ({
+  message: `Edge connects ${edge.source} to itself`,
+})).transform((edge): DocumentEdge => ({ source: edge.source, target: edge.target, attributes: edge.attributes }));
+
+// Text from CSV cells and XML attributes, typed the way a spreadsheet would read it
+export const inferValue = (text: string): AttributeValue => {
+  const trimmed = text.trim();
+  if (/^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase() === "true";
+  const number = Number(trimmed);
+  return trimmed !== "" && Number.isFinite(number) ? number : trimmed;
+};
+
+// First problem zod found, with the offending field in front
+export const issueFrom = (location: string | undefined, error: z.ZodError): ImportIssue => {
+  const [first] = error.issues;
+  const field = first.path.filter(part => part !== "attributes").join(".");
+  return { location, message: field ? `${field}: ${first.message}` : first.message };
+};
+
+// An entry as found in a file, before validation
+export interface RawEntry {
+  location: string;
+  value: unknown;
+}
+
+// Validate every node and edge on its own so one malformed row does not sink the whole file.
+// Edges may name nodes the file never declares; those get their id as label.
+export function assembleDocument(rawNodes: RawEntry[], rawEdges: RawEntry[], issues: ImportIssue[] = []): ImportResult {
+  const nodes = new Map<string, DocumentNode>();
+  rawNodes.forEach(({ location, value }) => {
+    const result = documentNodeSchema.safeParse(value);
+    if (!result.success) {
+      issues.push(issueFrom(location, result.error));
+    } else if (nodes.has(result.data.id)) {
+      issues.push({ location, message: `Node ${result.data.id} is declared twice; the first one is kept` });
+    } else {
+      nodes.set(result.data.id, result.data);
+    }
+  });
+
+  const edges: DocumentEdge[] = [];
+  rawEdges.forEach(({ location, value }) => {
+    const result = documentEdgeSchema.safeParse(value);
+    if (!result.success) {
+      issues.push(issueFrom(location, result.error));
+      return;
+    }
+    edges.push(result.data);
+    [result.data.source, result.data.target].forEach(id => {
+      if (!nodes.has(id)) nodes.set(id, { id, label: id, attributes: {} });
+    });
+  });
+
+  if (edges.length === 0) issues.push({ message: "The file contains no usable edges" });
+  return { document: { nodes: Array.from(nodes.values()), edges }, issues };
+}
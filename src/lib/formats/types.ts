@@ -0,0 +1,49 @@
+// Format-neutral graph that every serializer writes and every parser reads
+export type AttributeValue = string | number | boolean;
+
+export type Attributes = Record<string, AttributeValue>;
+
+export interface DocumentNode {
+  id: string;
+  label: string;
+  attributes: Attributes;
+  // Layout position in graph units, when one is known
+  position?: { x: number; y: number };
+}
+
+export interface DocumentEdge {
+  source: string;
+  target: string;
+  attributes: Attributes;
+}
+
+// Undirected multigraph: a pair of countries can share several borders
+export interface GraphDocument {
+  nodes: DocumentNode[];
+  edges: DocumentEdge[];
+}
+
+export type AttributeType = "string" | "double" | "boolean";
+
+export interface AttributeKey {
+  name: string;
+  type: AttributeType;
+}
+
+export type GraphFormat = "graphml" | "gexf" | "dot" | "json" | "csv";
+
+// Formats that can be read back; DOT is export only
+export type ImportFormat = Exclude<GraphFormat, "dot">;
+
+// A row, node or edge that could not be read, or a problem with the whole file
+export interface ImportIssue {
+  // Where the problem is, e.g. "Line 12" or "Edge 4"; absent for the whole file
+  location?: string;
+  message: string;
+}
+
+// What a parser could read; malformed entries are left out and reported
+export interface ImportResult {
+  document: GraphDocument;
+  issues: ImportIssue[];
+}
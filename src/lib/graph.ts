@@ -0,0 +1,47 @@
+import { Border, CountryId } from '@/data/countries';
+
+// Neighbor lookup for every country; a pair can share several borders
+// (e.g. Israel and Palestine via the Gaza Strip and the West Bank)
+export type AdjacencyMap = Map<CountryId, Map<CountryId, Border[]>>;
+
+// `countryIds` adds countries that have no borders of their own
+export function buildAdjacency(borders: Border[], countryIds: Iterable<CountryId> = []): AdjacencyMap {
+  const adjacency: AdjacencyMap = new Map(Array.from(countryIds, id => [id, new Map()]));
+
+  const connect = (from: CountryId, to: CountryId, border: Border) => {
+    if (!adjacency.has(from)) adjacency.set(from, new Map());
+    const neighbors = adjacency.get(from);
+    if (!neighbors.has(to)) neighbors.set(to, []);
+    neighbors.get(to).push(border);
+  };
+
+  borders.forEach(border => {
+    if (border.source === border.target) return;
+    connect(border.source, border.target, border);
+    connect(border.target, border.source, border);
+  });
+
+  return adjacency;
+}
+
+// Order-independent key for the pair of countries a border connects
+export const pairKey = (a: CountryId, b: CountryId) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Breadth-first hop counts from `start` to every country at most `maxHops` borders away, `start` excluded
+export function hopDistances(adjacency: AdjacencyMap, start: CountryId, maxHops: number) {
+  const distances = new Map<CountryId, number>([[start, 0]]);
+  let frontier = [start];
+
+  for (let hops = 1; hops <= maxHops && frontier.length > 0; hops++) {
+    const next: CountryId[] = [];
+    frontier.forEach(id => adjacency.get(id)?.forEach((_, neighbor) => {
+      if (distances.has(neighbor)) return;
+      distances.set(neighbor, hops);
+      next.push(neighbor);
+    }));
+    frontier = next;
+  }
+
+  distances.delete(start);
+  return distances;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Border, BorderKind } from '@/data/countries';
+import { findShortestPaths, preferLandWeight } from './pathfinding';
+
+const border = (source: string, target: string, kind: BorderKind = "land"): Border => ({ source, target, kind });
+
+// Two equally short routes from A to D, through B or through C
+const diamond = [border("A", "B"), border("B", "D"), border("A", "C"), border("C", "D")];
+
+describe("findShortestPaths", () => {
+  it("returns every shortest path of equal length", () => {
+    const result = findShortestPaths(diamond, "A", "D");
+    expect(result.paths).toHaveLength(2);
+    expect(result.paths).toEqual(expect.arrayContaining([["A", "B", "D"], ["A", "C", "D"]]));
+    expect(result.hops).toBe(2);
+    expect(result.maxHops).toBe(2);
+    expect(result.distance).toBe(2);
+    expect(result.truncated).toBe(false);
+  });
+
+  it("ignores longer routes", () => {
+    const result = findShortestPaths([...diamond, border("A", "E"), border("E", "F"), border("F", "D")], "A", "D");
+    expect(result.paths.every(path => path.length === 3)).toBe(true);
+  });
+
+  it("stops enumerating at maxPaths", () => {
+    const result = findShortestPaths(diamond, "A", "D", { maxPaths: 1 });
+    expect(result.paths).toHaveLength(1);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("reports unreachable and unknown countries", () => {
+    const split = [border("A", "B"), border("C", "D")];
+    expect(findShortestPaths(split, "A", "D")).toMatchObject({ paths: [], hops: Infinity, distance: Infinity });
+    expect(findShortestPaths(split, "A", "ZZZ").paths).toEqual([]);
+  });
+
+  it("finds the trivial path from a country to itself", () => {
+    expect(findShortestPaths(diamond, "A", "A")).toMatchObject({ paths: [["A"]], hops: 0, maxHops: 0, distance: 0 });
+  });
+
+  it("weighs crossings, so equally cheap routes can cross different numbers of borders", () => {
+    // A bridge costs as much as five land borders
+    const borders = [
+      border("A", "F", "bridge"),
+      border("A", "B"), border("B", "C"), border("C", "D"), border("D", "E"), border("E", "F"),
+    ];
+    const result = findShortestPaths(borders, "A", "F", { weight: preferLandWeight });
+    expect(result.distance).toBe(5);
+    expect(result.paths).toHaveLength(2);
+    expect(result.hops).toBe(1);
+    expect(result.maxHops).toBe(5);
+
+    expect(findShortestPaths(borders, "A", "F").paths).toEqual([["A", "F"]]);
+  });
+
+  it("uses the cheapest of parallel borders between the same pair", () => {
+    const borders = [border("A", "B", "bridge"), border("A", "B"), border("B", "C")];
+    expect(findShortestPaths(borders, "A", "C", { weight: preferLandWeight }).distance).toBe(2);
+  });
+});
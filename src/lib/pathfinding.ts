@@ -0,0 +1,198 @@
+import { Border, CountryId } from '@/data/countries';
+import { AdjacencyMap, buildAdjacency } from './graph';
+
+export interface PathOptions {
+  // Cost of crossing a border; without it every crossing counts as one hop (BFS)
+  weight?: (border: Border) => number;
+  // Upper bound on enumerated paths, the number of shortest paths grows quickly
+  maxPaths?: number;
+}
+
+export interface PathResult {
+  from: CountryId;
+  to: CountryId;
+  // Every shortest path, each listing the countries from `from` to `to`
+  paths: CountryId[][];
+  // Fewest and most borders crossed among the returned paths, Infinity when unreachable.
+  // Without a weight every shortest path crosses the same number; with one they may differ.
+  hops: number;
+  maxHops: number;
+  // Total weight of a shortest path; equals hops when no weight is given
+  distance: number;
+  truncated: boolean;
+}
+
+const DEFAULT_MAX_PATHS = 50;
+const EPSILON = 1e-9;
+
+// Penalizes crossings that are not over land, used by the "prefer land borders" option
+export const preferLandWeight = (border: Border) => (border.kind === "land" ? 1 : 5);
+
+// Predecessor lists of every shortest path from `from`, via BFS
+function unweightedPredecessors(adjacency: AdjacencyMap, from: CountryId) {
+  const distance = new Map<CountryId, number>([[from, 0]]);
+  const predecessors = new Map<CountryId, CountryId[]>([[from, []]]);
+  const queue = [from];
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    const next = distance.get(current) + 1;
+
+    adjacency.get(current)?.forEach((_, neighbor) => {
+      if (!distance.has(neighbor)) {
+        distance.set(neighbor, next);
+        predecessors.set(neighbor, [current]);
+        queue.push(neighbor);
+      } else if (distance.get(neighbor) === next) {
+        predecessors.get(neighbor).push(current);
+      }
+    });
+  }
+
+  return { distance, predecessors };
+}
+
+// Predecessor lists of every shortest path from `from`, via Dijkstra
+function weightedPredecessors(
+  adjacency: AdjacencyMap,
+  from: CountryId,
+  weight: (border: Border) => number
+) {
+  const distance = new Map<CountryId, number>([[from, 0]]);
+  const predecessors = new Map<CountryId, CountryId[]>([[from, []]]);
+  const settled = new Set<CountryId>();
+  const heap = new MinHeap<CountryId>();
+  heap.push(from, 0);
+
+  while (heap.size > 0) {
+    const { item: current, priority } = heap.pop();
+    if (settled.has(current)) continue;
+    settled.add(current);
+
+    adjacency.get(current)?.forEach((pairBorders, neighbor) => {
+      if (settled.has(neighbor)) return;
+      // Parallel borders between the same pair: the cheapest one counts
+      const cost = Math.min(...pairBorders.map(weight));
+      const candidate = priority + cost;
+      const known = distance.get(neighbor);
+
+      if (known === undefined || candidate < known - EPSILON) {
+        distance.set(neighbor, candidate);
+        predecessors.set(neighbor, [current]);
+        heap.push(neighbor, candidate);
+      } else if (Math.abs(candidate - known) <= EPSILON) {
+        predecessors.get(neighbor).push(current);
+      }
+    });
+  }
+
+  return { distance, predecessors };
+}
+
+// Walk the predecessor lists back from `to`, producing paths in travel order
+function enumeratePaths(
+  predecessors: Map<CountryId, CountryId[]>,
+  from: CountryId,
+  to: CountryId,
+  maxPaths: number
+) {
+  const paths: CountryId[][] = [];
+  let truncated = false;
+
+  const walk = (current: CountryId, suffix: CountryId[]) => {
+    if (paths.length >= maxPaths) {
+      truncated = true;
+      return;
+    }
+    if (current === from) {
+      paths.push([from, ...suffix]);
+      return;
+    }
+    predecessors.get(current).forEach(previous => walk(previous, [current, ...suffix]));
+  };
+
+  walk(to, []);
+  return { paths, truncated };
+}
+
+// Find every shortest border-crossing route between two countries
+export function findShortestPaths(
+  source: Border[] | AdjacencyMap,
+  from: CountryId,
+  to: CountryId,
+  { weight, maxPaths = DEFAULT_MAX_PATHS }: PathOptions = {}
+): PathResult {
+  const adjacency = source instanceof Map ? source : buildAdjacency(source);
+  const unreachable = { from, to, paths: [], hops: Infinity, maxHops: Infinity, distance: Infinity, truncated: false };
+
+  if (!adjacency.has(from) || !adjacency.has(to)) {
+    return from === to && adjacency.has(from)
+      ? { ...unreachable, paths: [[from]], hops: 0, maxHops: 0, distance: 0 }
+      : unreachable;
+  }
+
+  const { distance, predecessors } = weight
+    ? weightedPredecessors(adjacency, from, weight)
+    : unweightedPredecessors(adjacency, from);
+
+  if (!distance.has(to)) return unreachable;
+
+  const { paths, truncated } = enumeratePaths(predecessors, from, to, maxPaths);
+  const hopCounts = paths.map(path => path.length - 1);
+
+  return {
+    from,
+    to,
+    paths,
+    hops: Math.min(...hopCounts),
+    maxHops: Math.max(...hopCounts),
+    distance: distance.get(to),
+    truncated,
+  };
+}
+
+// Binary min-heap keyed by priority, enough for Dijkstra on a few hundred nodes
+class MinHeap<T> {
+  private entries: { item: T; priority: number }[] = [];
+
+  get size() {
+    return this.entries.length;
+  }
+
+  push(item: T, priority: number) {
+    const entries = this.entries;
+    entries.push({ item, priority });
+    let index = entries.length - 1;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (entries[parent].priority <= entries[index].priority) break;
+      [entries[parent], entries[index]] = [entries[index], entries[parent]];
+      index = parent;
+    }
+  }
+
+  pop() {
+    const entries = this.entries;
+    const top = entries[0];
+    const last = entries.pop();
+
+    if (entries.length > 0) {
+      entries[0] = last;
+      let index = 0;
+
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < entries.length && entries[left].priority < entries[smallest].priority) smallest = left;
+        if (right < entries.length && entries[right].priority < entries[smallest].priority) smallest = right;
+        if (smallest === index) break;
+        [entries[smallest], entries[index]] = [entries[index], entries[smallest]];
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+}
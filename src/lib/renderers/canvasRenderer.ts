@@ -0,0 +1,118 @@
+import { GraphRenderer, Scene, SceneHull, SceneNode, SceneRing } from './types';
+import { hullLine, hullPolygon, labelOffset, linkEnds } from './shapes';
+
+// Backing store size follows the device pixel ratio so lines stay crisp on high-density screens
+export const createLayerCanvas = (container: HTMLElement) => {
+  const canvas = document.createElement("canvas");
+  canvas.className = "absolute inset-0 w-full h-full";
+  container.appendChild(canvas);
+  return canvas;
+};
+
+export const resizeLayerCanvas = (canvas: HTMLCanvasElement, width: number, height: number) => {
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+};
+
+// Clear the layer and set it up to draw in graph coordinates
+export const beginLayer = (context: CanvasRenderingContext2D, { transform }: Scene) => {
+  const ratio = window.devicePixelRatio || 1;
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+  context.setTransform(ratio * transform.k, 0, 0, ratio * transform.k, ratio * transform.x, ratio * transform.y);
+};
+
+export const drawHulls = (context: CanvasRenderingContext2D, hulls: SceneHull[]) => {
+  hullLine.context(context);
+  hulls.forEach(hull => {
+    context.beginPath();
+    hullLine(hullPolygon(hull.members));
+    context.fillStyle = hull.color;
+    context.strokeStyle = hull.color;
+    context.lineJoin = "round";
+    context.lineWidth = 1;
+    context.globalAlpha = 0.08;
+    context.fill();
+    context.globalAlpha = 0.3;
+    context.stroke();
+  });
+  hullLine.context(null);
+  context.globalAlpha = 1;
+};
+
+export const drawRings = (context: CanvasRenderingContext2D, rings: SceneRing[]) => {
+  rings.forEach(ring => {
+    context.globalAlpha = ring.opacity;
+    context.strokeStyle = ring.color;
+    context.lineWidth = 2;
+    context.beginPath();
+    context.arc(ring.node.x || 0, ring.node.y || 0, ring.radius, 0, 2 * Math.PI);
+    context.stroke();
+  });
+  context.globalAlpha = 1;
+};
+
+export const drawLabels = (context: CanvasRenderingContext2D, nodes: SceneNode[], fontFamily: string) => {
+  context.textBaseline = "alphabetic";
+  nodes.forEach(node => {
+    if (node.style.opacity === 0) return;
+    const { dx, dy } = labelOffset(node);
+    context.globalAlpha = node.style.opacity;
+    context.font = `${node.style.labelSize}px ${fontFamily}`;
+    context.fillStyle = node.style.labelColor;
+    context.fillText(node.name, (node.x || 0) + dx, (node.y || 0) + dy);
+  });
+  context.globalAlpha = 1;
+};
+
+// Immediate-mode drawing on a single 2D canvas, redrawn completely on every frame
+export function createCanvasRenderer(container: HTMLElement): GraphRenderer {
+  const canvas = createLayerCanvas(container);
+  const context = canvas.getContext("2d");
+  const fontFamily = getComputedStyle(container).fontFamily || "sans-serif";
+
+  return {
+    kind: "canvas",
+    element: canvas,
+
+    resize: (width, height) => resizeLayerCanvas(canvas, width, height),
+
+    render: scene => {
+      beginLayer(context, scene);
+      drawHulls(context, scene.hulls);
+
+      scene.links.forEach(link => {
+        const { x1, y1, x2, y2 } = linkEnds(link);
+        context.globalAlpha = link.style.opacity;
+        context.strokeStyle = link.style.color;
+        context.lineWidth = link.style.width;
+        context.setLineDash(link.style.dash ?? []);
+        context.beginPath();
+        context.moveTo(x1, y1);
+        context.lineTo(x2, y2);
+        context.stroke();
+      });
+      context.setLineDash([]);
+
+      scene.nodes.forEach(node => {
+        if (node.style.opacity === 0) return;
+        context.globalAlpha = node.style.opacity;
+        context.beginPath();
+        context.arc(node.x || 0, node.y || 0, node.style.radius, 0, 2 * Math.PI);
+        context.fillStyle = node.style.fill;
+        context.fill();
+        context.lineWidth = node.style.strokeWidth;
+        context.strokeStyle = node.style.stroke;
+        context.stroke();
+      });
+
+      drawRings(context, scene.rings);
+      drawLabels(context, scene.nodes, fontFamily);
+    },
+
+    destroy: () => canvas.remove(),
+  };
+}
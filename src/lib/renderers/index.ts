@@ -0,0 +1,19 @@
+import { GraphRenderer, RendererKind } from './types';
+import { createSvgRenderer } from './svgRenderer';
+import { createCanvasRenderer } from './canvasRenderer';
+import { createWebGLRenderer } from './webglRenderer';
+
+export * from './types';
+
+export const rendererLabels: Record<RendererKind, string> = {
+  svg: "SVG",
+  canvas: "Canvas 2D",
+  webgl: "WebGL",
+};
+
+// Mount a backend into the container; WebGL falls back to Canvas 2D where it is unavailable
+export function createRenderer(kind: RendererKind, container: HTMLElement): GraphRenderer {
+  if (kind === "webgl") return createWebGLRenderer(container) ?? createCanvasRenderer(container);
+  if (kind === "canvas") return createCanvasRenderer(container);
+  return createSvgRenderer(container);
+}
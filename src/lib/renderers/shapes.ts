@@ -0,0 +1,23 @@
+import * as d3 from 'd3';
+import { SceneLink, SceneNode } from './types';
+
+// Padded outline around a group of nodes, so single countries still get a visible blob
+const HULL_PADDING = 18;
+
+export const hullLine = d3.line().curve(d3.curveCatmullRomClosed);
+
+export const hullPolygon = (members: SceneNode[]) => {
+  const points = members.flatMap(({ x = 0, y = 0 }) =>
+    d3.range(8).map(step => {
+      const angle = (step / 8) * 2 * Math.PI;
+      return [x + HULL_PADDING * Math.cos(angle), y + HULL_PADDING * Math.sin(angle)] as [number, number];
+    })
+  );
+  return d3.polygonHull(points);
+};
+
+export const linkEnds = ({ source, target }: SceneLink) =>
+  ({ x1: source.x || 0, y1: source.y || 0, x2: target.x || 0, y2: target.y || 0 });
+
+// Labels sit to the right of the circle, slightly below its center line
+export const labelOffset = (node: SceneNode) => ({ dx: node.style.radius + 4, dy: 4 });
@@ -0,0 +1,100 @@
+import * as d3 from 'd3';
+import { GraphRenderer, SceneHull, SceneLink, SceneNode, SceneRing } from './types';
+import { hullLine, hullPolygon, labelOffset, linkEnds } from './shapes';
+
+// One DOM element per node and border; the most inspectable backend, and the slowest
+export function createSvgRenderer(container: HTMLElement): GraphRenderer {
+  const svg = d3.select(container)
+    .append("svg")
+    .attr("class", "absolute inset-0 w-full h-full")
+    .attr("preserveAspectRatio", "xMidYMid meet");
+
+  const root = svg.append("g");
+  const hullLayer = root.append("g").attr("class", "hulls");
+  const linkLayer = root.append("g").attr("class", "links");
+  const nodeLayer = root.append("g").attr("class", "nodes");
+  const ringLayer = root.append("g").attr("class", "rings").style("pointer-events", "none");
+
+  return {
+    kind: "svg",
+    element: svg.node(),
+
+    resize: (width, height) => {
+      svg
+        .attr("width", width)
+        .attr("height", height)
+        .attr("viewBox", `0 0 ${width} ${height}`);
+    },
+
+    render: ({ nodes, links, hulls, rings, transform }) => {
+      root.attr("transform", transform.toString());
+
+      hullLayer.selectAll<SVGPathElement, SceneHull>("path")
+        .data(hulls, hull => hull.key)
+        .join("path")
+        .attr("d", hull => hullLine(hullPolygon(hull.members)))
+        .attr("fill", hull => hull.color)
+        .attr("fill-opacity", 0.08)
+        .attr("stroke", hull => hull.color)
+        .attr("stroke-opacity", 0.3)
+        .attr("stroke-linejoin", "round");
+
+      linkLayer.selectAll<SVGLineElement, SceneLink>("line")
+        .data(links)
+        .join(enter => enter.append("line").call(line => line.append("title")))
+        .each(function(link) {
+          const { x1, y1, x2, y2 } = linkEnds(link);
+          d3.select(this)
+            .attr("x1", x1)
+            .attr("y1", y1)
+            .attr("x2", x2)
+            .attr("y2", y2)
+            .attr("stroke", link.style.color)
+            .attr("stroke-opacity", link.style.opacity)
+            .attr("stroke-width", link.style.width)
+            .attr("stroke-dasharray", link.style.dash?.join(",") ?? null)
+            .select("title")
+            .text(link.title);
+        });
+
+      nodeLayer.selectAll<SVGGElement, SceneNode>("g")
+        .data(nodes, node => node.id)
+        .join(enter => {
+          const group = enter.append("g");
+          group.append("circle");
+          group.append("text").style("pointer-events", "none");
+          return group;
+        })
+        .attr("transform", node => `translate(${node.x || 0},${node.y || 0})`)
+        .style("opacity", node => node.style.opacity)
+        .each(function(node) {
+          const group = d3.select(this);
+          const { dx, dy } = labelOffset(node);
+          group.select("circle")
+            .attr("r", node.style.radius)
+            .attr("fill", node.style.fill)
+            .attr("stroke", node.style.stroke)
+            .attr("stroke-width", node.style.strokeWidth);
+          group.select("text")
+            .attr("dx", dx)
+            .attr("dy", dy)
+            .attr("font-size", `${node.style.labelSize}px`)
+            .style("fill", node.style.labelColor)
+            .text(node.name);
+        });
+
+      ringLayer.selectAll<SVGCircleElement, SceneRing>("circle")
+        .data(rings)
+        .join("circle")
+        .attr("cx", ring => ring.node.x || 0)
+        .attr("cy", ring => ring.node.y || 0)
+        .attr("r", ring => ring.radius)
+        .attr("fill", "none")
+        .attr("stroke", ring => ring.color)
+        .attr("stroke-width", 2)
+        .attr("stroke-opacity", ring => ring.opacity);
+    },
+
+    destroy: () => svg.remove(),
+  };
+}
@@ -0,0 +1,70 @@
+import * as d3 from 'd3';
+
+export type RendererKind = "svg" | "canvas" | "webgl";
+
+export interface NodeStyle {
+  radius: number;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  opacity: number;
+  labelSize: number;
+  labelColor: string;
+}
+
+export interface LinkStyle {
+  color: string;
+  opacity: number;
+  width: number;
+  // Dash lengths in graph units, null for a solid line; the WebGL backend takes up to four values
+  dash: number[] | null;
+}
+
+export interface SceneNode {
+  id: string;
+  name: string;
+  x?: number;
+  y?: number;
+  style: NodeStyle;
+}
+
+// Endpoints are the scene's own node objects, so a link follows them as positions stream in
+export interface SceneLink {
+  source: SceneNode;
+  target: SceneNode;
+  // Tooltip for the backends that support native ones
+  title: string;
+  style: LinkStyle;
+}
+
+// Padded outline drawn underneath a group of nodes
+export interface SceneHull {
+  key: string;
+  members: SceneNode[];
+  color: string;
+}
+
+// Expanding circle drawn over a node to draw attention to it
+export interface SceneRing {
+  node: SceneNode;
+  radius: number;
+  color: string;
+  opacity: number;
+}
+
+export interface Scene {
+  nodes: SceneNode[];
+  links: SceneLink[];
+  hulls: SceneHull[];
+  rings: SceneRing[];
+  transform: d3.ZoomTransform;
+}
+
+// A drawing backend; the graph binds zoom, drag and picking to `element`
+export interface GraphRenderer {
+  kind: RendererKind;
+  element: HTMLElement | SVGSVGElement;
+  resize: (width: number, height: number) => void;
+  render: (scene: Scene) => void;
+  destroy: () => void;
+}
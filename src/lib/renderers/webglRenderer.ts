@@ -0,0 +1,280 @@
+import * as d3 from 'd3';
+import { GraphRenderer, SceneNode } from './types';
+import { linkEnds } from './shapes';
+import { beginLayer, createLayerCanvas, drawHulls, drawLabels, drawRings, resizeLayerCanvas } from './canvasRenderer';
+
+// Borders are quads so they can be wider than the 1px most drivers allow for GL lines
+const LINK_VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute vec2 a_offset;
+attribute vec4 a_color;
+attribute float a_distance;
+attribute vec4 a_dash;
+uniform vec2 u_resolution;
+uniform vec3 u_transform;
+varying vec4 v_color;
+varying float v_distance;
+varying vec4 v_dash;
+
+void main() {
+  vec2 screen = (a_position + a_offset) * u_transform.z + u_transform.xy;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_color = a_color;
+  v_distance = a_distance;
+  v_dash = a_dash;
+}
+`;
+
+const LINK_FRAGMENT_SHADER = `
+precision mediump float;
+varying vec4 v_color;
+varying float v_distance;
+varying vec4 v_dash;
+
+// The dash pattern is on, off, on, off; unused entries are zero
+void main() {
+  float period = v_dash.x + v_dash.y + v_dash.z + v_dash.w;
+  if (period > 0.0) {
+    float along = mod(v_distance, period);
+    if (along > v_dash.x && along < v_dash.x + v_dash.y) discard;
+    if (along > v_dash.x + v_dash.y + v_dash.z) discard;
+  }
+  gl_FragColor = vec4(v_color.rgb * v_color.a, v_color.a);
+}
+`;
+
+// Countries are point sprites shaded into an anti-aliased disc with a ring for the stroke
+const NODE_VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute float a_radius;
+attribute float a_strokeWidth;
+attribute vec4 a_fill;
+attribute vec4 a_stroke;
+uniform vec2 u_resolution;
+uniform vec3 u_transform;
+uniform float u_pixelRatio;
+varying vec4 v_fill;
+varying vec4 v_stroke;
+varying float v_outer;
+varying float v_inner;
+varying float v_size;
+
+void main() {
+  vec2 screen = a_position * u_transform.z + u_transform.xy;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  float scale = u_transform.z * u_pixelRatio;
+  v_outer = (a_radius + a_strokeWidth * 0.5) * scale;
+  v_inner = (a_radius - a_strokeWidth * 0.5) * scale;
+  v_size = 2.0 * v_outer + 2.0;
+  gl_PointSize = v_size;
+  v_fill = a_fill;
+  v_stroke = a_stroke;
+}
+`;
+
+const NODE_FRAGMENT_SHADER = `
+precision mediump float;
+varying vec4 v_fill;
+varying vec4 v_stroke;
+varying float v_outer;
+varying float v_inner;
+varying float v_size;
+
+void main() {
+  float distance = length(gl_PointCoord - 0.5) * v_size;
+  float coverage = 1.0 - smoothstep(v_outer - 0.5, v_outer + 0.5, distance);
+  if (coverage <= 0.0) discard;
+  vec4 color = mix(v_fill, v_stroke, smoothstep(v_inner - 0.5, v_inner + 0.5, distance));
+  float alpha = color.a * coverage;
+  gl_FragColor = vec4(color.rgb * alpha, alpha);
+}
+`;
+
+type AttributeLayout = [name: string, size: number][];
+
+const LINK_ATTRIBUTES: AttributeLayout = [["a_position", 2], ["a_offset", 2], ["a_color", 4], ["a_distance", 1], ["a_dash", 4]];
+const NODE_ATTRIBUTES: AttributeLayout = [["a_position", 2], ["a_radius", 1], ["a_strokeWidth", 1], ["a_fill", 4], ["a_stroke", 4]];
+
+// Dash patterns as the shader takes them: like SVG and canvas, an odd-length pattern is repeated once.
+// The shader holds four values, which covers every border style.
+const DASH_VALUES = 4;
+const dashPattern = (dash: number[] | null) => {
+  const even = dash && dash.length % 2 === 1 ? [...dash, ...dash] : dash ?? [];
+  return Array.from({ length: DASH_VALUES }, (_, index) => even[index] ?? 0);
+};
+
+const floatsPerVertex = (layout: AttributeLayout) => layout.reduce((sum, [, size]) => sum + size, 0);
+
+function compileProgram(gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string) {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Could not compile shader: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  };
+
+  const program = gl.createProgram();
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, vertexSource));
+  gl.attachShader(program, compile(gl.FRAGMENT_SHADER, fragmentSource));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Could not link shader program: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+// Hulls and labels are drawn on 2D canvases below and above the GL layer.
+// Returns null when the browser has no usable WebGL support.
+export function createWebGLRenderer(container: HTMLElement): GraphRenderer | null {
+  const wrapper = document.createElement("div");
+  wrapper.className = "absolute inset-0";
+  container.appendChild(wrapper);
+
+  const hullCanvas = createLayerCanvas(wrapper);
+  const glCanvas = createLayerCanvas(wrapper);
+  const gl = glCanvas.getContext("webgl", { premultipliedAlpha: true, antialias: true });
+  if (!gl) {
+    wrapper.remove();
+    return null;
+  }
+
+  // Some drivers hand out a context but fail on the shaders; that counts as no support too
+  let linkProgram: WebGLProgram;
+  let nodeProgram: WebGLProgram;
+  try {
+    linkProgram = compileProgram(gl, LINK_VERTEX_SHADER, LINK_FRAGMENT_SHADER);
+    nodeProgram = compileProgram(gl, NODE_VERTEX_SHADER, NODE_FRAGMENT_SHADER);
+  } catch {
+    gl.getExtension("WEBGL_lose_context")?.loseContext();
+    wrapper.remove();
+    return null;
+  }
+
+  const labelCanvas = createLayerCanvas(wrapper);
+  const hullContext = hullCanvas.getContext("2d");
+  const labelContext = labelCanvas.getContext("2d");
+  const fontFamily = getComputedStyle(container).fontFamily || "sans-serif";
+
+  const buffer = gl.createBuffer();
+  let size = { width: 0, height: 0 };
+
+  gl.enable(gl.BLEND);
+  gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+  // CSS colors parsed once per distinct string
+  const parsedColors = new Map<string, d3.RGBColor>();
+  const rgba = (color: string, opacity: number) => {
+    if (!parsedColors.has(color)) parsedColors.set(color, d3.rgb(color));
+    const { r, g, b, opacity: alpha } = parsedColors.get(color);
+    return [r / 255, g / 255, b / 255, (Number.isNaN(alpha) ? 1 : alpha) * opacity];
+  };
+
+  const draw = (
+    program: WebGLProgram,
+    layout: AttributeLayout,
+    vertices: number[],
+    mode: number,
+    uniforms: (program: WebGLProgram) => void
+  ) => {
+    if (vertices.length === 0) return;
+    gl.useProgram(program);
+    uniforms(program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(vertices), gl.DYNAMIC_DRAW);
+
+    const stride = floatsPerVertex(layout) * Float32Array.BYTES_PER_ELEMENT;
+    const locations: number[] = [];
+    let offset = 0;
+    layout.forEach(([name, components]) => {
+      const location = gl.getAttribLocation(program, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, components, gl.FLOAT, false, stride, offset);
+      locations.push(location);
+      offset += components * Float32Array.BYTES_PER_ELEMENT;
+    });
+
+    gl.drawArrays(mode, 0, vertices.length / floatsPerVertex(layout));
+    locations.forEach(location => gl.disableVertexAttribArray(location));
+  };
+
+  return {
+    kind: "webgl",
+    element: wrapper,
+
+    resize: (width, height) => {
+      size = { width, height };
+      [hullCanvas, glCanvas, labelCanvas].forEach(canvas => resizeLayerCanvas(canvas, width, height));
+      gl.viewport(0, 0, glCanvas.width, glCanvas.height);
+    },
+
+    render: scene => {
+      const { transform } = scene;
+
+      beginLayer(hullContext, scene);
+      drawHulls(hullContext, scene.hulls);
+
+      gl.clearColor(0, 0, 0, 0);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+
+      const setViewUniforms = (program: WebGLProgram) => {
+        gl.uniform2f(gl.getUniformLocation(program, "u_resolution"), size.width, size.height);
+        gl.uniform3f(gl.getUniformLocation(program, "u_transform"), transform.x, transform.y, transform.k);
+      };
+
+      // Two triangles per border; hairlines stay at least one screen pixel wide
+      const linkVertices: number[] = [];
+      scene.links.forEach(link => {
+        if (link.style.opacity === 0) return;
+        const { x1, y1, x2, y2 } = linkEnds(link);
+        const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+        const half = Math.max(link.style.width, 1 / transform.k) / 2;
+        const nx = (-(y2 - y1) / length) * half;
+        const ny = ((x2 - x1) / length) * half;
+        const color = rgba(link.style.color, link.style.opacity);
+        const dash = dashPattern(link.style.dash);
+        const corner = (x: number, y: number, side: number, distance: number) =>
+          linkVertices.push(x, y, nx * side, ny * side, ...color, distance, ...dash);
+
+        corner(x1, y1, 1, 0);
+        corner(x1, y1, -1, 0);
+        corner(x2, y2, 1, length);
+        corner(x2, y2, 1, length);
+        corner(x1, y1, -1, 0);
+        corner(x2, y2, -1, length);
+      });
+      draw(linkProgram, LINK_ATTRIBUTES, linkVertices, gl.TRIANGLES, setViewUniforms);
+
+      const nodeVertices: number[] = [];
+      scene.nodes.forEach((node: SceneNode) => {
+        const { style } = node;
+        if (style.opacity === 0) return;
+        nodeVertices.push(
+          node.x || 0,
+          node.y || 0,
+          style.radius,
+          style.strokeWidth,
+          ...rgba(style.fill, style.opacity),
+          ...rgba(style.stroke, style.opacity)
+        );
+      });
+      draw(nodeProgram, NODE_ATTRIBUTES, nodeVertices, gl.POINTS, program => {
+        setViewUniforms(program);
+        gl.uniform1f(gl.getUniformLocation(program, "u_pixelRatio"), window.devicePixelRatio || 1);
+      });
+
+      beginLayer(labelContext, scene);
+      drawRings(labelContext, scene.rings);
+      drawLabels(labelContext, scene.nodes, fontFamily);
+    },
+
+    destroy: () => {
+      gl.getExtension("WEBGL_lose_context")?.loseContext();
+      wrapper.remove();
+    },
+  };
+}
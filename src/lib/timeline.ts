@@ -0,0 +1,60 @@
+import { endOfYear, getYear, isBefore, parseISO } from 'date-fns';
+import { Border, CountryId, countriesById } from '@/data/countries';
+
+// Anything with a lifetime: ISO dates, where validTo is the first day it no longer existed
+export interface Dated {
+  validFrom?: string;
+  validTo?: string;
+}
+
+export const isValidAt = ({ validFrom, validTo }: Dated, date: Date) =>
+  (!validFrom || !isBefore(date, parseISO(validFrom))) && (!validTo || isBefore(date, parseISO(validTo)));
+
+// Ids outside the registry, e.g. from an imported network, have always existed
+export const countryExistsAt = (id: CountryId, date: Date) =>
+  !countriesById[id] || isValidAt(countriesById[id], date);
+
+// A border exists while it is valid itself and both of its countries exist
+export const isBorderActive = (border: Border, date: Date) =>
+  isValidAt(border, date) && countryExistsAt(border.source, date) && countryExistsAt(border.target, date);
+
+export const bordersAt = (borders: Border[], date: Date) =>
+  borders.filter(border => isBorderActive(border, date));
+
+// The timeline shows the map as it stood at the end of each year
+export const dateOfYear = (year: number) => endOfYear(new Date(year, 0, 1));
+
+export const currentYear = () => getYear(new Date());
+
+const datesOf = ({ validFrom, validTo }: Dated) => [validFrom, validTo].filter(Boolean);
+
+// Years in which a border or one of its countries appears or disappears, oldest first
+export function changeYears(borders: Border[]): number[] {
+  const ids = new Set(borders.flatMap(border => [border.source, border.target]));
+  const dates = [
+    ...borders.flatMap(datesOf),
+    ...Array.from(ids).flatMap(id => (countriesById[id] ? datesOf(countriesById[id]) : [])),
+  ];
+  return Array.from(new Set(dates.map(date => getYear(parseISO(date))))).sort((a, b) => a - b);
+}
+
+// Years the timeline covers, from just before the first recorded change up to today; null for networks without dates
+export function timelineRange(borders: Border[]): [number, number] | null {
+  const years = changeYears(borders);
+  return years.length > 0 ? [years[0] - 1, currentYear()] : null;
+}
+
+export interface YearChanges {
+  founded: CountryId[];
+  dissolved: CountryId[];
+}
+
+// Countries of the network that came into being or ceased to exist during a year
+export function countryChangesIn(borders: Border[], year: number): YearChanges {
+  const ids = Array.from(new Set(borders.flatMap(border => [border.source, border.target])));
+  const inYear = (date?: string) => date !== undefined && getYear(parseISO(date)) === year;
+  return {
+    founded: ids.filter(id => inYear(countriesById[id]?.validFrom)),
+    dissolved: ids.filter(id => inYear(countriesById[id]?.validTo)),
+  };
+}
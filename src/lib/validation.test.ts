@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { Border, Country, countries } from '@/data/countries';
+import { datasets } from '@/data/datasets';
+import { ValidationRule, validateBorders } from './validation';
+
+// Small registry: two neighbors in Europe, a distant one in Asia and a short-lived state
+const registry: Country[] = [
+  { id: "AAA", name: "Alpha", aliases: ["Alphaland"], continents: ["Europe"], bbox: [0, 0, 2, 2], centroid: [1, 1] },
+  { id: "BBB", name: "Beta", aliases: [], continents: ["Europe"], bbox: [2, 0, 4, 2], centroid: [3, 1] },
+  { id: "CCC", name: "Gamma", aliases: [], continents: ["Asia"], bbox: [40, 0, 42, 2], centroid: [41, 1] },
+  { id: "DDD", name: "Delta", aliases: [], continents: ["Europe"], bbox: [0, 2, 2, 4], centroid: [1, 3], validFrom: "1990-01-01", validTo: "2000-01-01" },
+];
+
+const land = (source: string, target: string, extra: Partial<Border> = {}): Border => ({ source, target, kind: "land", ...extra });
+
+const rulesOf = (borders: Border[], options = {}) =>
+  validateBorders(borders, { registry, ...options }).issues.map(issue => issue.rule);
+
+const onlyRule = (rule: ValidationRule, borders: Border[]) => {
+  const report = validateBorders(borders, { registry });
+  expect(report.issues.map(issue => issue.rule)).toEqual([rule]);
+  return report.issues[0];
+};
+
+describe("validateBorders", () => {
+  it("accepts a clean dataset", () => {
+    const report = validateBorders([land("AAA", "BBB"), land("AAA", "DDD")], { registry });
+    expect(report.valid).toBe(true);
+    expect(report.issues).toEqual([]);
+    expect(report.bordersChecked).toBe(2);
+  });
+
+  it("reports duplicates in either direction", () => {
+    expect(onlyRule("duplicate-border", [land("AAA", "BBB"), land("AAA", "BBB")]).borderIndex).toBe(1);
+    expect(onlyRule("duplicate-border", [land("AAA", "BBB"), land("BBB", "AAA")]).borderIndex).toBe(1);
+  });
+
+  it("keeps borders of different territories of the same pair apart", () => {
+    expect(rulesOf([land("AAA", "BBB", { territory: "North" }), land("AAA", "BBB", { territory: "South" })])).toEqual([]);
+  });
+
+  it("reports self-loops", () => {
+    expect(onlyRule("self-loop", [land("AAA", "AAA")]).countryIds).toEqual(["AAA", "AAA"]);
+  });
+
+  it("reports unknown countries, including unknown parents", () => {
+    expect(onlyRule("unknown-country", [land("AAA", "ZZZ")]).message).toContain("ZZZ");
+
+    const withOrphan = [...registry, { ...registry[1], id: "EEE", name: "Epsilon", parent: "ZZZ" }];
+    const report = validateBorders([], { registry: withOrphan });
+    expect(report.issues.map(issue => issue.rule)).toEqual(["unknown-country"]);
+  });
+
+  it("reports labels shared by two countries", () => {
+    const colliding = [...registry, { ...registry[1], id: "EEE", name: "Epsilon", aliases: ["alphaland"] }];
+    const report = validateBorders([], { registry: colliding });
+    expect(report.issues.map(issue => issue.rule)).toEqual(["alias-collision"]);
+    expect(report.issues[0].countryIds).toEqual(["AAA", "EEE"]);
+  });
+
+  it("warns about neighbors on different continents without failing the report", () => {
+    const nearby = registry.map(country => (country.id === "CCC" ? { ...country, bbox: [4, 0, 6, 2] as Country["bbox"] } : country));
+    const report = validateBorders([land("BBB", "CCC")], { registry: nearby });
+    expect(report.issues.map(issue => issue.rule)).toEqual(["continent-mismatch"]);
+    expect(report.valid).toBe(true);
+    expect(report.warningCount).toBe(1);
+  });
+
+  it("reports neighbors whose extents are far apart", () => {
+    expect(rulesOf([land("AAA", "CCC")])).toEqual(["continent-mismatch", "distant-countries"]);
+    expect(rulesOf([land("AAA", "CCC")], { maxGapDegrees: 40 })).toEqual(["continent-mismatch"]);
+  });
+
+  it("allows a wider gap for maritime boundaries", () => {
+    const farBeta = [registry[0], { ...registry[1], bbox: [5, 0, 7, 2] as Country["bbox"] }];
+    const borders = [land("AAA", "BBB", { kind: "maritime" })];
+    expect(validateBorders(borders, { registry: farBeta }).issues).toEqual([]);
+    expect(validateBorders([land("AAA", "BBB")], { registry: farBeta }).issues.map(issue => issue.rule))
+      .toEqual(["distant-countries"]);
+  });
+
+  it("skips the geographic checks for detached territories", () => {
+    expect(rulesOf([land("AAA", "CCC", { detached: true, territory: "Exclave" })])).toEqual([]);
+  });
+
+  it("skips the distance check for borders that no longer exist", () => {
+    expect(rulesOf([land("AAA", "CCC", { validTo: "1995-01-01" })])).toEqual(["continent-mismatch"]);
+  });
+
+  it("reports malformed and reversed periods", () => {
+    expect(onlyRule("invalid-period", [land("AAA", "BBB", { validFrom: "1990-13-45" })]).message).toContain("1990-13-45");
+    expect(onlyRule("invalid-period", [land("AAA", "BBB", { validFrom: "2000-01-01", validTo: "1990-01-01" })]).borderIndex)
+      .toBe(0);
+
+    const report = validateBorders([], { registry: [...registry, { ...registry[1], id: "EEE", name: "Epsilon", validTo: "nope" }] });
+    expect(report.issues.map(issue => issue.rule)).toEqual(["invalid-period"]);
+  });
+
+  it("reports borders that never overlap the lifetime of both countries", () => {
+    expect(onlyRule("invalid-period", [land("AAA", "DDD", { validFrom: "2005-01-01" })]).message)
+      .toContain("never exists");
+    expect(rulesOf([land("AAA", "DDD", { validFrom: "1995-01-01" })])).toEqual([]);
+  });
+
+  it("counts issues by rule", () => {
+    const report = validateBorders([land("AAA", "AAA"), land("AAA", "BBB"), land("BBB", "AAA")], { registry });
+    expect(report.countsByRule["self-loop"]).toBe(1);
+    expect(report.countsByRule["duplicate-border"]).toBe(1);
+    expect(report.countsByRule["unknown-country"]).toBe(0);
+    expect(report.errorCount).toBe(2);
+    expect(report.valid).toBe(false);
+  });
+});
+
+describe("bundled data", () => {
+  it("flags the bad pairs the original dataset contained", () => {
+    const badPairs = [["UZB", "YEM"], ["TGO", "UGA"], ["NPL", "PAK"], ["PAN", "PER"], ["SOM", "SSD"]];
+    const report = validateBorders(badPairs.map(([source, target]) => land(source, target)), { registry: countries });
+    const distant = report.issues.filter(issue => issue.rule === "distant-countries");
+    expect(distant.map(issue => issue.borderIndex)).toEqual([0, 1, 2, 3, 4]);
+    expect(report.valid).toBe(false);
+  });
+
+  it.each(Object.entries(datasets))("has no errors in the %s dataset, history included", (_, dataset) => {
+    const report = validateBorders([...dataset.borders, ...dataset.historicalBorders]);
+    expect(report.issues.filter(issue => issue.severity === "error")).toEqual([]);
+  });
+});
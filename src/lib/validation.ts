@@ -0,0 +1,196 @@
+import { isBefore, isValid, max, min, parseISO } from 'date-fns';
+import { Border, BoundingBox, Country, CountryId, countries } from '@/data/countries';
+import { Dated } from './timeline';
+
+export type ValidationRule =
+  | "duplicate-border"
+  | "self-loop"
+  | "unknown-country"
+  | "alias-collision"
+  | "continent-mismatch"
+  | "distant-countries"
+  | "invalid-period";
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  message: string;
+  countryIds: CountryId[];
+  // Index into the validated border list, when the issue is about a border
+  borderIndex?: number;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  issues: ValidationIssue[];
+  countsByRule: Record<ValidationRule, number>;
+  errorCount: number;
+  warningCount: number;
+  bordersChecked: number;
+}
+
+export interface ValidationOptions {
+  registry?: Country[];
+  // Largest gap in degrees tolerated between the bounding boxes of neighbors
+  maxGapDegrees?: number;
+  // The same for maritime boundaries, which can span a wide stretch of sea
+  maxMaritimeGapDegrees?: number;
+}
+
+const RULE_SEVERITY: Record<ValidationRule, ValidationSeverity> = {
+  "duplicate-border": "error",
+  "self-loop": "error",
+  "unknown-country": "error",
+  "alias-collision": "error",
+  // Plenty of real borders cross continents, so this is only a hint
+  "continent-mismatch": "warning",
+  "distant-countries": "error",
+  "invalid-period": "error",
+};
+
+const DEFAULT_MAX_GAP_DEGREES = 0.5;
+const DEFAULT_MAX_MARITIME_GAP_DEGREES = 6;
+
+// Gap between two boxes along the axis where they are furthest apart, 0 when they overlap
+const boundingBoxGap = ([w1, s1, e1, n1]: BoundingBox, [w2, s2, e2, n2]: BoundingBox) =>
+  Math.max(0, w1 - e2, w2 - e1, s1 - n2, s2 - n1);
+
+// Why a lifetime cannot be right, or null when it is fine
+const periodProblem = ({ validFrom, validTo }: Dated) => {
+  const malformed = [validFrom, validTo].find(date => date !== undefined && !isValid(parseISO(date)));
+  if (malformed !== undefined) return `"${malformed}" is not a yyyy-MM-dd date`;
+  if (validFrom && validTo && !isBefore(parseISO(validFrom), parseISO(validTo))) {
+    return `ends (${validTo}) before it starts (${validFrom})`;
+  }
+  return null;
+};
+
+// Check a border dataset against the country registry and report everything suspicious
+export function validateBorders(
+  borders: Border[],
+  {
+    registry = countries,
+    maxGapDegrees = DEFAULT_MAX_GAP_DEGREES,
+    maxMaritimeGapDegrees = DEFAULT_MAX_MARITIME_GAP_DEGREES,
+  }: ValidationOptions = {}
+): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const byId = new Map(registry.map(country => [country.id, country]));
+  const name = (id: CountryId) => byId.get(id)?.name ?? id;
+
+  const report = (rule: ValidationRule, message: string, countryIds: CountryId[], borderIndex?: number) => {
+    issues.push({ rule, severity: RULE_SEVERITY[rule], message, countryIds, borderIndex });
+  };
+
+  // Registry: every label must resolve to exactly one country
+  const ownersByLabel = new Map<string, Set<number>>();
+  registry.forEach((country, index) => {
+    [country.id, country.name, ...country.aliases].forEach(label => {
+      const key = label.trim().toLowerCase();
+      if (!ownersByLabel.has(key)) ownersByLabel.set(key, new Set());
+      ownersByLabel.get(key).add(index);
+    });
+
+    const problem = periodProblem(country);
+    if (problem) report("invalid-period", `${country.name}'s lifetime ${problem}`, [country.id]);
+
+    if (country.parent && !byId.has(country.parent)) {
+      report("unknown-country", `${country.name} refers to unknown parent "${country.parent}"`, [country.id]);
+    }
+  });
+
+  ownersByLabel.forEach((owners, label) => {
+    if (owners.size < 2) return;
+    const ids = Array.from(owners, index => registry[index].id);
+    report("alias-collision", `"${label}" is used by ${ids.join(", ")}`, ids);
+  });
+
+  // Borders
+  const seen = new Map<string, number>();
+
+  borders.forEach((border, index) => {
+    const { source, target } = border;
+    const pair = [source, target];
+
+    if (source === target) {
+      report("self-loop", `${name(source)} borders itself`, pair, index);
+      return;
+    }
+
+    const unknown = pair.filter(id => !byId.has(id));
+    if (unknown.length) {
+      unknown.forEach(id => report("unknown-country", `Border refers to unknown country "${id}"`, pair, index));
+      return;
+    }
+
+    // Different territories of the same pair are separate borders, e.g. Gaza Strip and West Bank
+    const key = [...pair].sort().join("|") + (border.territory ? `|${border.territory}` : "");
+    if (seen.has(key)) {
+      report(
+        "duplicate-border",
+        `${name(source)} – ${name(target)} is listed more than once (first at #${seen.get(key)})`,
+        pair,
+        index
+      );
+      return;
+    }
+    seen.set(key, index);
+
+    const problem = periodProblem(border);
+    if (problem) {
+      report("invalid-period", `${name(source)} – ${name(target)} ${problem}`, pair, index);
+    } else if (!periodProblem(byId.get(source)) && !periodProblem(byId.get(target))) {
+      // The border is only there while it and both countries exist, so those periods have to overlap
+      const periods = [border, byId.get(source), byId.get(target)];
+      const starts = periods.filter(period => period.validFrom).map(period => parseISO(period.validFrom));
+      const ends = periods.filter(period => period.validTo).map(period => parseISO(period.validTo));
+      if (starts.length > 0 && ends.length > 0 && !isBefore(max(starts), min(ends))) {
+        report("invalid-period", `${name(source)} – ${name(target)} never exists at the same time as both countries`, pair, index);
+      }
+    }
+
+    // Exclaves and overseas territories lie outside the registry's main extent
+    if (border.detached) return;
+
+    const a = byId.get(source);
+    const b = byId.get(target);
+
+    if (!a.continents.some(continent => b.continents.includes(continent))) {
+      report(
+        "continent-mismatch",
+        `${a.name} (${a.continents.join("/")}) and ${b.name} (${b.continents.join("/")}) share no continent`,
+        pair,
+        index
+      );
+    }
+
+    // Extents are today's, so borders that have since disappeared cannot be checked against them
+    if (border.validTo) return;
+
+    const gap = boundingBoxGap(a.bbox, b.bbox);
+    if (gap > (border.kind === "maritime" ? maxMaritimeGapDegrees : maxGapDegrees)) {
+      report(
+        "distant-countries",
+        `${a.name} and ${b.name} are at least ${gap.toFixed(1)}° apart`,
+        pair,
+        index
+      );
+    }
+  });
+
+  const countsByRule = Object.fromEntries(
+    Object.keys(RULE_SEVERITY).map(rule => [rule, issues.filter(issue => issue.rule === rule).length])
+  ) as Record<ValidationRule, number>;
+  const errorCount = issues.filter(issue => issue.severity === "error").length;
+
+  return {
+    valid: errorCount === 0,
+    issues,
+    countsByRule,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    bordersChecked: borders.length,
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { allBordersOf, datasetCountryIds } from '@/data/datasets';
+import { currentYear, timelineRange } from './timeline';
+import { defaultViewState, parseViewRoute, parseViewState, viewStateToParams } from './viewState';
+
+const parse = (query: string) => parseViewState(new URLSearchParams(query));
+
+describe("parseViewState", () => {
+  it("falls back to the defaults for missing and unknown values", () => {
+    expect(parse("")).toEqual(defaultViewState);
+    expect(parse("dataset=moon&layout=spiral&t=1,2&communities=-1&coloring=rainbow")).toEqual({
+      ...defaultViewState,
+      communities: 1,
+      coloring: "dsatur",
+    });
+  });
+
+  it("reads back what viewStateToParams writes", () => {
+    const state = {
+      ...defaultViewState,
+      dataset: "maritime" as const,
+      transform: { x: 10, y: -20, k: 1.5 },
+      metric: "pagerank" as const,
+      showCuts: true,
+      removedCountry: "FRA",
+      communities: 1.2,
+      coloring: "exact" as const,
+      year: 2000,
+    };
+    expect(parseViewState(viewStateToParams(state))).toEqual(state);
+    expect(viewStateToParams(defaultViewState).toString()).toBe("");
+  });
+
+  it("keeps the year within the timeline's range", () => {
+    const [first, last] = timelineRange(allBordersOf("standard"));
+    expect(last).toBe(currentYear());
+    expect(parse("year=1").year).toBe(first);
+    expect(parse("year=99999").year).toBe(last);
+    expect(parse(`year=${first + 1}`).year).toBe(first + 1);
+    expect(parse("year=1999.5").year).toBeNull();
+    expect(parse("year=").year).toBeNull();
+  });
+
+  it("only removes countries of the chosen dataset", () => {
+    expect(parse("removed=fra").removedCountry).toBe("FRA");
+    expect(parse("removed=YUG").removedCountry).toBe("YUG");
+    expect(parse("removed=ZZZ").removedCountry).toBeNull();
+    // Australia only has maritime boundaries
+    expect(parse("dataset=maritime&removed=AUS").removedCountry).toBe("AUS");
+    expect(parse("dataset=land&removed=AUS").removedCountry).toBeNull();
+  });
+});
+
+describe("parseViewRoute", () => {
+  const standard = datasetCountryIds("standard");
+
+  it("opens countries, paths and comparisons of the network", () => {
+    expect(parseViewRoute({ id: "deu" }, standard)).toEqual({ kind: "country", id: "DEU" });
+    expect(parseViewRoute({ from: "PRT", to: "CHN" }, standard)).toEqual({ kind: "path", from: "PRT", to: "CHN" });
+    expect(parseViewRoute({ a: "FRA", b: "ESP" }, standard)).toEqual({ kind: "compare", a: "FRA", b: "ESP" });
+  });
+
+  it("sends links to countries outside the network home", () => {
+    expect(parseViewRoute({ id: "ZZZ" }, standard)).toEqual({ kind: "home" });
+    expect(parseViewRoute({ id: "FRA" }, new Set(["A", "B"]))).toEqual({ kind: "home" });
+    expect(parseViewRoute({ from: "FRA", to: "ZZZ" }, standard)).toEqual({ kind: "home" });
+  });
+});
@@ -0,0 +1,141 @@
+import type { LayoutMode, MapProjection } from '@/components/CountryGraph';
+import { CountryId } from '@/data/countries';
+import { DatasetId, allBordersOf, datasetCountryIds, datasets, defaultDatasetId } from '@/data/datasets';
+import { CentralityMetric, centralityMetricLabels } from './centrality';
+import { ColoringStrategy, coloringStrategyLabels } from './coloring';
+import { timelineRange } from './timeline';
+
+// Pan and zoom of the graph view, as in d3.zoomTransform
+export interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+// Everything about the view that is kept in the query string
+export interface ViewState {
+  dataset: DatasetId;
+  transform: ViewTransform | null;
+  layout: LayoutMode;
+  projection: MapProjection;
+  metric: CentralityMetric;
+  showCuts: boolean;
+  removedCountry: CountryId | null;
+  // Community resolution, null while communities are hidden
+  communities: number | null;
+  // Coloring strategy, null while the map coloring is hidden
+  coloring: ColoringStrategy | null;
+  // Year the timeline shows, null for the present day
+  year: number | null;
+}
+
+export const defaultViewState: ViewState = {
+  dataset: defaultDatasetId,
+  transform: null,
+  layout: "force",
+  projection: "equalEarth",
+  metric: "degree",
+  showCuts: false,
+  removedCountry: null,
+  communities: null,
+  coloring: null,
+  year: null,
+};
+
+const LAYOUTS: LayoutMode[] = ["force", "components", "geographic"];
+const PROJECTIONS: MapProjection[] = ["equalEarth", "mercator"];
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+// Links may only point at countries of the network they open
+const countryOrNull = (value: string | null, countryIds: ReadonlySet<CountryId>): CountryId | null =>
+  value && countryIds.has(value.toUpperCase()) ? value.toUpperCase() : null;
+
+// Years the timeline slider cannot show are moved to its nearest end
+const yearOrNull = (value: string | null, dataset: DatasetId): number | null => {
+  const year = Number(value);
+  const range = timelineRange(allBordersOf(dataset));
+  if (!value || !Number.isInteger(year) || !range) return null;
+  return Math.min(Math.max(year, range[0]), range[1]);
+};
+
+// Transforms are written as "x,y,k"; anything malformed is ignored
+const parseTransform = (value: string | null): ViewTransform | null => {
+  const parts = value?.split(",").map(Number);
+  if (!parts || parts.length !== 3 || parts.some(part => !Number.isFinite(part)) || parts[2] <= 0) return null;
+  const [x, y, k] = parts;
+  return { x, y, k };
+};
+
+// Unknown or invalid parameters fall back to their defaults instead of failing the page
+export function parseViewState(params: URLSearchParams): ViewState {
+  const resolution = Number(params.get("communities"));
+  const dataset = oneOf(params.get("dataset"), Object.keys(datasets) as DatasetId[], defaultViewState.dataset);
+  return {
+    dataset,
+    transform: parseTransform(params.get("t")),
+    layout: oneOf(params.get("layout"), LAYOUTS, defaultViewState.layout),
+    projection: oneOf(params.get("projection"), PROJECTIONS, defaultViewState.projection),
+    metric: oneOf(
+      params.get("metric"),
+      Object.keys(centralityMetricLabels) as CentralityMetric[],
+      defaultViewState.metric
+    ),
+    showCuts: params.get("cuts") === "1",
+    removedCountry: countryOrNull(params.get("removed"), datasetCountryIds(dataset)),
+    communities: params.has("communities") ? (resolution > 0 ? resolution : 1) : null,
+    coloring: params.has("coloring")
+      ? oneOf(params.get("coloring"), Object.keys(coloringStrategyLabels) as ColoringStrategy[], "dsatur")
+      : null,
+    year: yearOrNull(params.get("year"), dataset),
+  };
+}
+
+// Only values that differ from the defaults are written, so plain views keep short URLs
+export function viewStateToParams(state: ViewState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.dataset !== defaultViewState.dataset) params.set("dataset", state.dataset);
+  if (state.transform) {
+    const { x, y, k } = state.transform;
+    params.set("t", `${Math.round(x)},${Math.round(y)},${Number(k.toFixed(3))}`);
+  }
+  if (state.layout !== defaultViewState.layout) params.set("layout", state.layout);
+  if (state.projection !== defaultViewState.projection) params.set("projection", state.projection);
+  if (state.metric !== defaultViewState.metric) params.set("metric", state.metric);
+  if (state.showCuts) params.set("cuts", "1");
+  if (state.removedCountry) params.set("removed", state.removedCountry);
+  if (state.communities !== null) params.set("communities", String(state.communities));
+  if (state.coloring) params.set("coloring", state.coloring);
+  if (state.year !== null) params.set("year", String(state.year));
+  return params;
+}
+
+// What the path part of the URL points at
+export type ViewRoute =
+  | { kind: "home" }
+  | { kind: "country"; id: CountryId }
+  | { kind: "path"; from: CountryId; to: CountryId }
+  | { kind: "compare"; a: CountryId; b: CountryId };
+
+// Route params as matched by react-router: `id` for a country, `from` and `to` for a path,
+// `a` and `b` for a comparison. Countries outside `countryIds` send the view home.
+export function parseViewRoute(
+  params: Record<string, string | undefined>,
+  countryIds: ReadonlySet<CountryId>
+): ViewRoute {
+  const country = (key: string) => countryOrNull(params[key] ?? null, countryIds);
+  if (country("id")) return { kind: "country", id: country("id") };
+  if (country("from") && country("to")) return { kind: "path", from: country("from"), to: country("to") };
+  if (country("a") && country("b")) return { kind: "compare", a: country("a"), b: country("b") };
+  return { kind: "home" };
+}
+
+export function viewRoutePath(route: ViewRoute) {
+  switch (route.kind) {
+    case "country": return `/country/${route.id}`;
+    case "path": return `/path/${route.from}/${route.to}`;
+    case "compare": return `/compare/${route.a}/${route.b}`;
+    default: return "/";
+  }
+}